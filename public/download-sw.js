@@ -0,0 +1,63 @@
+// Turns a stream of chunks posted by the page into a file download, for
+// browsers without the File System Access API. The page registers a download
+// over a MessageChannel, then navigates a hidden iframe to its URL; the
+// response body is pulled from the page one chunk at a time.
+
+const DOWNLOAD_PATH = "/__uvify_download__/";
+const pending = new Map();
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type === "download" && event.ports[0]) {
+    pending.set(data.id, { port: event.ports[0], fileName: data.fileName });
+  }
+  // "keep-alive" messages need no handling: receiving them is enough to stop
+  // the browser from shutting the worker down mid-download.
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(DOWNLOAD_PATH)) return;
+
+  const [id] = url.pathname.slice(DOWNLOAD_PATH.length).split("/");
+  const download = pending.get(id);
+  if (!download) {
+    event.respondWith(new Response("Download not found", { status: 404 }));
+    return;
+  }
+  pending.delete(id);
+
+  const { port, fileName } = download;
+  // Settles the pending pull() once the page answers it, so the stream does
+  // not ask for another chunk before the previous one has arrived.
+  let settlePull = () => {};
+  const body = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.type === "chunk") controller.enqueue(data.chunk);
+        else if (data.type === "close") controller.close();
+        else if (data.type === "abort") controller.error(new Error(data.message || "Download aborted"));
+        settlePull();
+      };
+    },
+    pull() {
+      return new Promise((resolve) => {
+        settlePull = resolve;
+        port.postMessage({ type: "pull" });
+      });
+    },
+    cancel() {
+      port.postMessage({ type: "cancel" });
+    },
+  });
+
+  event.respondWith(new Response(body, {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    },
+  }));
+});
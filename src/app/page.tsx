@@ -3,115 +3,124 @@
 
 import { useState, useMemo, useCallback, ChangeEvent, useRef, useEffect } from "react";
 import Image from "next/image";
-import { FileImage, Download, Loader2 } from "lucide-react";
+import { FileImage, Download, Loader2, Pause, Play, TriangleAlert, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import Papa from "papaparse";
-import QRCode from "qrcode";
-import JSZip from "jszip";
-
-const DPI = 300;
-const cmToPx = (cm: number) => Math.round((cm / 2.54) * DPI);
-
-type QrConfig = {
-  qrSizeCm: number;
-  marginTopCm: number;
-  marginRightCm: number;
+import { ExportSummaryDialog, type ExportSummary } from "@/components/export-summary-dialog";
+import { isRenderPoolSupported } from "@/lib/render-pool";
+import { openArchiveSink, openDownloadSink, isAbortError, type ArchiveSink } from "@/lib/archive-sink";
+import { runExportJob, partName, jobSlots, type JobControl } from "@/lib/export-job";
+import { saveJob, loadJob, clearJob, type ExportJob, type JobProgress } from "@/lib/job-store";
+import { codeSizeCm, toLayoutSpec, type CodeSymbology, type QrConfig } from "@/lib/layout";
+import { usePreviewRender } from "@/hooks/use-preview-render";
+import { RowNavigator } from "@/components/row-navigator";
+import { DEFAULT_FILE_NAMES, filePath, nameTemplateError, planFileNames, type FileNameOptions } from "@/lib/file-names";
+import { OUTPUT_FORMATS, isRasterFormat, type OutputFormat } from "@/lib/output-format";
+import type { PdfOptions } from "@/lib/pdf/card-pdf";
+import type { SvgOptions } from "@/lib/card-svg";
+import { planSheet, rowPlacement, type ImpositionOptions } from "@/lib/imposition";
+import { ImpositionSettings } from "@/components/imposition-settings";
+import { FileNameSettings } from "@/components/file-name-settings";
+import { ArchiveSettings } from "@/components/archive-settings";
+import { DEFAULT_ARCHIVES, archiveTemplateError, type ArchiveOptions } from "@/lib/archive-names";
+import { OutputFolderSettings } from "@/components/output-folder-settings";
+import { DEFAULT_FOLDER_OUTPUT, ensureWritable, type FolderOutputOptions } from "@/lib/output-directory";
+import { ERROR_CORRECTION_LEVELS, MIN_MODULE_MM, measureQr } from "@/lib/qr-capacity";
+import { useCapacityCheck } from "@/hooks/use-capacity-check";
+import { useBarcodeCheck } from "@/hooks/use-barcode-check";
+import { useQrContrast } from "@/hooks/use-qr-contrast";
+import { QrAppearanceSettings } from "@/components/qr-appearance-settings";
+import { QrStyleEditor } from "@/components/qr-style-editor";
+import { useQrDecodeCheck } from "@/hooks/use-qr-decode-check";
+import { QrLogoSettings } from "@/components/qr-logo-settings";
+import { CLASSIC_STYLE, MIN_LOGO_RATIO, SYMBOLOGIES, buildPayload, guessColumns, maxLogoRatio, samplePayloadRow, PAYLOAD_TYPES, type DataRow, type ErrorCorrectionLevel, type Payload, type QrLogo, type Symbology } from "@/lib/render";
+import { PayloadSettings } from "@/components/payload-settings";
+import { DATA_FILE_ACCEPT, readDataFile, type DataTable, type ImportedData } from "@/lib/data-import";
+import { usePayloadCheck } from "@/hooks/use-payload-check";
+
+type JobState = "idle" | "running" | "pausing" | "paused";
+
+const LINK_PAYLOAD: Payload = { type: "link", columns: {} };
+
+const mapColumns = (payload: Payload, headers: string[], rows: DataRow[]): Payload => {
+  const kept = Object.fromEntries(Object.entries(payload.columns).filter(([, column]) => headers.includes(column)));
+  return { ...payload, columns: { ...guessColumns(payload.type, headers, rows), ...kept } };
 };
 
-// Helper function to set DPI in JPEG blob
-const setDpi = (blob: Blob, dpi: number): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const arrayBuffer = e.target?.result as ArrayBuffer;
-        if (!arrayBuffer) {
-          throw new Error("Could not read blob as ArrayBuffer");
-        }
-        const view = new DataView(arrayBuffer);
-        const segments = [];
-        let offset = 2; // Skip SOI
-
-        while (offset < view.byteLength) {
-            const marker = view.getUint16(offset);
-            offset += 2;
-
-            if (marker === 0xFFE0) { // APP0
-                const len = view.getUint16(offset);
-                // Skip this segment, we will replace it.
-                offset += len;
-                continue;
-            }
-            
-            if (marker >= 0xFFD0 && marker <= 0xFFD9 || marker === 0xFF01) { // Markers without length
-                continue;
-            }
-
-            if (marker === 0xFFDA) { // SOS
-                segments.push(arrayBuffer.slice(offset - 2));
-                break;
-            }
-
-            const len = view.getUint16(offset);
-            if (len < 2) {
-                // Invalid segment length
-                break;
-            }
-            segments.push(arrayBuffer.slice(offset - 2, offset + len));
-            offset += len;
-        }
-        
-        // Create new APP0 segment for JFIF
-        const app0Data = new Uint8Array(16);
-        const app0View = new DataView(app0Data.buffer);
-        app0View.setUint16(0, 0xFFE0); // APP0 marker
-        app0View.setUint16(2, 16); // Length of segment
-        app0View.setUint8(4, 0x4A); // J
-        app0View.setUint8(5, 0x46); // F
-        app0View.setUint8(6, 0x49); // I
-        app0View.setUint8(7, 0x46); // F
-        app0View.setUint8(8, 0x00); // \0
-        app0View.setUint16(9, 0x0101); // Version 1.01
-        app0View.setUint8(11, 1); // Units: 1 for DPI
-        app0View.setUint16(12, dpi); // X density
-        app0View.setUint16(14, dpi); // Y density
-
-        const soi = new Uint8Array([0xFF, 0xD8]); // SOI marker
-        const newBlobParts = [soi, app0Data, ...segments.map(s => new Uint8Array(s))];
-        
-        resolve(new Blob(newBlobParts, { type: 'image/jpeg' }));
-
-      } catch(error) {
-        console.error("Error setting DPI:", error);
-        resolve(blob); // Fallback to original blob
-      }
-    };
-    reader.onerror = (err) => {
-      console.error("FileReader error:", err);
-      resolve(blob);
-    };
-    reader.readAsArrayBuffer(blob);
-  });
-};
+// Labels of the required fields no column has been chosen for.
+const unmappedFields = (payload: Payload) =>
+  PAYLOAD_TYPES[payload.type].fields
+    .filter(field => field.required && !payload.columns[field.key])
+    .map(field => field.label.toLowerCase());
 
+// Rows for the QR capacity check while another symbology is selected.
+const NO_ROWS: DataRow[] = [];
+
+const DEFAULT_LOGO: QrLogo = { sizeRatio: 0.2, paddingModules: 1, shape: "rounded" };
 
 export default function Home() {
   const [bgDimensions, setBgDimensions] = useState({ widthCm: 16, heightCm: 9 });
-  const [qrConfig, setQrConfig] = useState<QrConfig>({ qrSizeCm: 3, marginTopCm: 2.4, marginRightCm: 0.9 });
+  const [qrConfig, setQrConfig] = useState<QrConfig>({
+    symbology: "qr",
+    qrSizeCm: 3,
+    barcodeHeightCm: 1.5,
+    humanReadable: true,
+    marginTopCm: 2.4,
+    marginRightCm: 0.9,
+    errorCorrectionLevel: "H",
+    darkColor: "#000000",
+    lightColor: "#ffffff",
+    quietZoneModules: 0,
+    knockout: true,
+    style: CLASSIC_STYLE,
+    logo: null,
+  });
   
   const [bgImage, setBgImage] = useState<{ file: File; url: string; width: number; height: number; } | null>(null);
-  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [logoImage, setLogoImage] = useState<{ file: Blob; url: string } | null>(null);
+  const [dataFile, setDataFile] = useState<File | null>(null);
+  const [tables, setTables] = useState<DataTable[]>([]);
+  const [tableName, setTableName] = useState("");
+  const [detectedFormat, setDetectedFormat] = useState<string | null>(null);
   const [links, setLinks] = useState<Record<string, string>[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [payload, setPayload] = useState<Payload>(LINK_PAYLOAD);
+  const [previewRow, setPreviewRow] = useState(0);
+  const [jobState, setJobState] = useState<JobState>("idle");
   const [progress, setProgress] = useState(0);
+  const [format, setFormat] = useState<OutputFormat>("jpeg");
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>({ bleedMm: 3, cropMarks: true, extendBackground: true });
+  const [svgOptions, setSvgOptions] = useState<SvgOptions>({ embedBackground: true });
+  const [imposition, setImposition] = useState<ImpositionOptions>({
+    enabled: false,
+    sheet: "sra3",
+    orientation: "portrait",
+    marginMm: 10,
+    gutterMm: 0,
+    rotation: "auto",
+    order: "step-and-repeat",
+    cutMarks: true,
+  });
+  const [fileNames, setFileNames] = useState<FileNameOptions>(DEFAULT_FILE_NAMES);
+  const [archives, setArchives] = useState<ArchiveOptions>(DEFAULT_ARCHIVES);
+  const [confirmDownloads, setConfirmDownloads] = useState(false);
+  const [folderOutput, setFolderOutput] = useState<FolderOutputOptions>(DEFAULT_FOLDER_OUTPUT);
+  const [retries, setRetries] = useState(2);
+  const [verify, setVerify] = useState(false);
+  const [summary, setSummary] = useState<ExportSummary | null>(null);
+  const [savedJob, setSavedJob] = useState<{ job: ExportJob; progress: JobProgress } | null>(null);
+  const jobControl = useRef<JobControl>({ pauseRequested: false, cancelRequested: false });
+  const isProcessing = jobState !== "idle";
   const { toast } = useToast();
-  const csvInputRef = useRef<HTMLInputElement>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
 
   const handleBgImageChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -129,54 +138,85 @@ export default function Home() {
     }
   };
 
-  const handleCsvChange = (e: ChangeEvent<HTMLInputElement>) => {
+  const handleLogoImageChange = (file: File | null) => {
+    if (file && !file.type.startsWith('image/')) {
+      toast({ variant: "destructive", title: "Invalid File", description: "Please upload a valid logo image (PNG, SVG, JPG, etc.)." });
+      return;
+    }
+    setLogoImage(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return file ? { file, url: URL.createObjectURL(file) } : null;
+    });
+    // A new logo starts at the default size, or the safe maximum if that's smaller.
+    const initial = { ...DEFAULT_LOGO, sizeRatio: Math.max(MIN_LOGO_RATIO, Math.min(DEFAULT_LOGO.sizeRatio, maxLogo)) };
+    setQrConfig(prev => ({ ...prev, logo: file ? prev.logo ?? initial : null }));
+  };
+
+  // Puts one table (a sheet, for workbooks) in place as the rows to encode.
+  const applyTable = (table: DataTable) => {
+    setLinks(table.rows);
+    setColumns(table.headers);
+    // Choices that still name a column of the new table are kept; the rest
+    // are guessed from the headers and values.
+    const mapped = mapColumns(payload, table.headers, table.rows);
+    setPayload(mapped);
+    setPreviewRow(0);
+    return mapped;
+  };
+
+  const handleDataChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-      setCsvFile(file);
-      setLinks([]); 
-      Papa.parse(file, {
-        header: true,
-        delimiter: ",",
-        skipEmptyLines: true,
-        transformHeader: header => header.trim(),
-        complete: (results) => {
-          if (!results.meta.fields?.includes("links")) {
-            toast({ variant: "destructive", title: "Invalid CSV", description: "CSV must have a 'links' column." });
-            setLinks([]);
-            setCsvFile(null);
-            if (csvInputRef.current) csvInputRef.current.value = "";
-            return;
-          }
-          
-          const parsedLinks = (results.data as Record<string, string>[])
-            .map(row => (row.links && row.links.trim() ? { links: row.links.trim() } : null))
-            .filter(Boolean) as Record<string, string>[];
-
-          setLinks(parsedLinks);
-          if (parsedLinks.length > 0) {
-            toast({ title: "CSV Parsed", description: `Found ${parsedLinks.length} rows with links.` });
-          } else {
-            toast({ variant: "destructive", title: "No Links Found", description: "No valid data found in the 'links' column." });
-          }
-        },
-        error: (error) => {
-            toast({ variant: "destructive", title: "CSV Parsing Error", description: error.message });
-            setLinks([]);
-        }
-      });
+    setDataFile(file);
+    setLinks([]);
+    setTables([]);
+    let imported: ImportedData;
+    try {
+      imported = await readDataFile(file);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could Not Read File", description: error instanceof Error ? error.message : String(error) });
+      setDataFile(null);
+      if (dataInputRef.current) dataInputRef.current.value = "";
+      return;
+    }
+
+    // Workbooks open on their first sheet that has any rows.
+    const table = imported.tables.find(t => t.rows.length > 0) ?? imported.tables[0];
+    if (!table || table.headers.length === 0) {
+      toast({ variant: "destructive", title: "No Data Found", description: "The file must have a header row." });
+      setDataFile(null);
+      if (dataInputRef.current) dataInputRef.current.value = "";
+      return;
+    }
+
+    setTables(imported.tables);
+    setTableName(table.name);
+    setDetectedFormat(imported.detected);
+    const mapped = applyTable(table);
+    const unmapped = unmappedFields(mapped);
+    if (table.rows.length === 0) {
+      toast({ variant: "destructive", title: "No Rows Found", description: "The file has headers but no rows with data." });
+    } else if (unmapped.length > 0) {
+      toast({ title: "File Loaded", description: `Found ${table.rows.length} rows. Choose the column for ${unmapped.join(", ")} below.` });
     } else {
-      toast({ variant: "destructive", title: "Invalid File", description: "Please upload a valid CSV file." });
+      toast({ title: "File Loaded", description: `Found ${table.rows.length} rows.` });
     }
   };
+
+  const handleTableChange = (name: string) => {
+    const table = tables.find(t => t.name === name);
+    if (!table) return;
+    setTableName(name);
+    applyTable(table);
+  };
   
   const handleBgDimChange = (key: 'widthCm' | 'heightCm', value: number) => {
     const newBgDimensions = { ...bgDimensions, [key]: value || 0 };
     setBgDimensions(newBgDimensions);
 
-    const newMaxTop = newBgDimensions.heightCm - qrConfig.qrSizeCm;
-    const newMaxRight = newBgDimensions.widthCm - qrConfig.qrSizeCm;
+    const newMaxTop = newBgDimensions.heightCm - codeSize.heightCm;
+    const newMaxRight = newBgDimensions.widthCm - codeSize.widthCm;
     setQrConfig(prevConfig => ({
         ...prevConfig,
         marginTopCm: Math.min(prevConfig.marginTopCm, newMaxTop < 0 ? 0 : newMaxTop),
@@ -184,220 +224,360 @@ export default function Home() {
     }));
   };
 
-  const handleQrConfigChange = (key: keyof QrConfig, value: number) => {
+  const handleQrConfigChange = (key: 'qrSizeCm' | 'barcodeHeightCm' | 'marginTopCm' | 'marginRightCm', value: number) => {
     setQrConfig(prev => ({ ...prev, [key]: value }));
   };
 
-  const previewStyle = useMemo(() => {
-    if (!bgImage) return {};
-
-    const containerAspectRatio = bgDimensions.widthCm / bgDimensions.heightCm;
-    const imageAspectRatio = bgImage.width / bgImage.height;
-
-    let scaleFactor: number;
-    let offsetXPercent = 0;
-    let offsetYPercent = 0;
-    let scaledWidthPercent: number;
-    let scaledHeightPercent: number;
-    
-    if (imageAspectRatio > containerAspectRatio) {
-        
-        scaledWidthPercent = 100;
-        scaledHeightPercent = (containerAspectRatio / imageAspectRatio) * 100;
-        offsetYPercent = (100 - scaledHeightPercent) / 2;
-    } else {
-        
-        scaledHeightPercent = 100;
-        scaledWidthPercent = (imageAspectRatio / containerAspectRatio) * 100;
-        offsetXPercent = (100 - scaledWidthPercent) / 2;
+  const barcode: Symbology | null = qrConfig.symbology === "qr" ? null : qrConfig.symbology;
+  const codeSize = codeSizeCm(qrConfig);
+  const layoutSpec = useMemo(() => toLayoutSpec(bgDimensions, qrConfig, payload), [bgDimensions, qrConfig, payload]);
+  // Shown in the preview until a data file has been loaded. Plain links use a
+  // value the chosen symbology can take.
+  const sampleRow = useMemo(
+    () => (barcode && payload.type === "link"
+      ? { [payload.columns.url ?? "url"]: SYMBOLOGIES[barcode].sample }
+      : samplePayloadRow(payload)),
+    [barcode, payload],
+  );
+  const previewData = links[previewRow] ?? (links.length === 0 ? sampleRow : null);
+  const rowText = (row: DataRow) => {
+    try {
+      return buildPayload(payload, row);
+    } catch {
+      return null;
     }
-    
-    // Calculate QR position relative to the scaled image
-    const qrSizePercent = (qrConfig.qrSizeCm / bgDimensions.widthCm) * scaledWidthPercent;
-    const qrTopPercent = (qrConfig.marginTopCm / bgDimensions.heightCm) * scaledHeightPercent;
-    const qrRightPercent = (qrConfig.marginRightCm / bgDimensions.widthCm) * scaledWidthPercent;
-
-    return {
-      position: 'absolute',
-      top: `${offsetYPercent + qrTopPercent}%`,
-      right: `${offsetXPercent + qrRightPercent}%`,
-      width: `${qrSizePercent}%`,
-      aspectRatio: '1 / 1'
-    };
-
-  }, [qrConfig, bgDimensions, bgImage]);
-
-  const generateImages = useCallback(async () => {
-  if (!bgImage || links.length === 0) {
-    toast({
-      variant: "destructive",
-      title: "Missing Inputs",
-      description: "Please upload a background image and a valid CSV with links.",
-    });
-    return;
-  }
-
-  setIsProcessing(true);
-  setProgress(0);
-
-  const outputWidthPx = cmToPx(bgDimensions.widthCm);
-  const outputHeightPx = cmToPx(bgDimensions.heightCm);
-  const qrSizePx = cmToPx(qrConfig.qrSizeCm);
-
-  const bgImageElement = document.createElement("img");
-  bgImageElement.src = bgImage.url;
-  await new Promise(resolve => { bgImageElement.onload = resolve; });
-
-  const canvasAspectRatio = outputWidthPx / outputHeightPx;
-  const imageAspectRatio = bgImageElement.width / bgImageElement.height;
-  let drawWidth, drawHeight, offsetX, offsetY;
-
-  if (imageAspectRatio > canvasAspectRatio) {
-    drawWidth = outputWidthPx;
-    drawHeight = drawWidth / imageAspectRatio;
-    offsetX = 0;
-    offsetY = (outputHeightPx - drawHeight) / 2;
-  } else {
-    drawHeight = outputHeightPx;
-    drawWidth = drawHeight * imageAspectRatio;
-    offsetX = (outputWidthPx - drawWidth) / 2;
-    offsetY = 0;
-  }
-
-  const BATCH_SIZE = 4;
-  const IMAGES_PER_ZIP = 2000;
-
-  const zipFiles: JSZip[] = [];
-  const zipImageCounts: number[] = [];
-
-  for (let i = 0; i < links.length; i += BATCH_SIZE) {
-    const batch = links.slice(i, i + BATCH_SIZE);
-
-    const blobs = await Promise.all(
-      batch.map(async (entry, index) => {
-        const canvas = document.createElement("canvas");
-        const ctx = canvas.getContext("2d")!;
-        canvas.width = outputWidthPx;
-        canvas.height = outputHeightPx;
-
-        const link = entry.links;
-
-        ctx.fillStyle = "white";
-        ctx.fillRect(0, 0, outputWidthPx, outputHeightPx);
-        ctx.drawImage(bgImageElement, offsetX, offsetY, drawWidth, drawHeight);
-
-        const qrDataUrl = await QRCode.toDataURL(link, {
-          errorCorrectionLevel: 'H',
-          margin: 0,
-          scale: 10,
-          color: { light: '#FFFFFF00' }
-        });
-
-        const qrImageElement = document.createElement('img');
-        qrImageElement.src = qrDataUrl;
-        await new Promise(resolve => { qrImageElement.onload = resolve; });
-
-        const pasteX = offsetX + drawWidth - qrSizePx - cmToPx(qrConfig.marginRightCm);
-        const pasteY = offsetY + cmToPx(qrConfig.marginTopCm);
-
-        ctx.fillStyle = "white";
-        ctx.fillRect(pasteX, pasteY, qrSizePx, qrSizePx);
-        ctx.drawImage(qrImageElement, pasteX, pasteY, qrSizePx, qrSizePx);
-
-        const blob = await new Promise<Blob | null>(resolve =>
-          canvas.toBlob(resolve, 'image/jpeg', 0.9)
-        );
-
-        if (blob) {
-          return { blob: await setDpi(blob, DPI), link };
-        }
-
-        return null;
+  };
+  const previewText = previewData && rowText(previewData);
+
+  // Per-card files are named by the template; PDFs and imposed sheets are
+  // named by page or sheet instead.
+  const fileExtension = imposition.enabled ? undefined : OUTPUT_FORMATS[format].fileExtension;
+  const fileNameError = useMemo(() => {
+    const known = links.length > 0 ? columns : null;
+    const folderError = fileNames.folders.trim() ? nameTemplateError(fileNames.folders, known) : null;
+    return nameTemplateError(fileNames.template, known) ?? (folderError && `Folders: ${folderError}`);
+  }, [fileNames.template, fileNames.folders, links.length, columns]);
+  const fileNamePlan = useMemo(() => {
+    if (!fileExtension || fileNameError) return null;
+    return planFileNames(links.length > 0 ? links : [sampleRow], payload, fileNames, fileExtension);
+  }, [fileExtension, fileNameError, links, sampleRow, payload, fileNames]);
+  // An archive per folder needs per-card files sorted into folders.
+  const firstFolder = fileNamePlan && fileNames.folders.trim() ? fileNamePlan.folders[0] ?? "" : null;
+
+  // Where each row lands when cards are imposed, for the preview captions and
+  // the archive count.
+  const sheetPlan = useMemo(() => {
+    if (!imposition.enabled) return null;
+    try {
+      return planSheet({ widthMm: bgDimensions.widthCm * 10, heightMm: bgDimensions.heightCm * 10 }, imposition);
+    } catch {
+      return null;
+    }
+  }, [imposition, bgDimensions]);
+
+  // How many archives the export makes, or null when split by size, which
+  // only shows while they are written. Mirrors partEnd in export-job; an
+  // export to a folder isn't split.
+  const archiveCount = useMemo(() => {
+    if (folderOutput.enabled) return 1;
+    if (archives.split === "size") return null;
+    if (archives.split === "folder") return firstFolder === null ? 1 : new Set(fileNamePlan?.folders).size;
+    if (archives.split !== "count") return 1;
+    const rows = Math.max(links.length, 1);
+    if (!sheetPlan) return Math.ceil(rows / archives.maxImages);
+    const perSheet = sheetPlan.slots.length;
+    return Math.ceil(Math.ceil(rows / perSheet) / Math.max(1, Math.floor(archives.maxImages / perSheet)));
+  }, [folderOutput.enabled, archives, links.length, firstFolder, fileNamePlan, sheetPlan]);
+  // A PDF export is one document per part; the other formats are zipped.
+  const downloadLabel = `${format === "pdf" ? "PDF" : "Zip"}${archiveCount === 1 ? "" : "s"}`;
+  const preview = usePreviewRender(bgImage?.file ?? null, logoImage?.file ?? null, layoutSpec, isRasterFormat(format) ? format : "png", previewData);
+
+  const qrSizing = useMemo(
+    () => ({ errorCorrectionLevel: qrConfig.errorCorrectionLevel, sizeCm: qrConfig.qrSizeCm, quietZoneModules: qrConfig.quietZoneModules }),
+    [qrConfig.errorCorrectionLevel, qrConfig.qrSizeCm, qrConfig.quietZoneModules],
+  );
+  const payloadIssues = usePayloadCheck(links, payload);
+  const capacity = useCapacityCheck(barcode ? NO_ROWS : links, payload, qrSizing);
+  const barcodeCheck = useBarcodeCheck(links, payload, barcode);
+  const contrastWarnings = useQrContrast(bgImage?.file ?? null, layoutSpec);
+  const qrElement = layoutSpec.elements.find(element => element.type === "qr") ?? null;
+  const decodeStatus = useQrDecodeCheck(qrElement, previewText, logoImage?.file ?? null);
+  // The decoder reads QR codes from rendered images only.
+  const canVerify = !barcode && isRasterFormat(format);
+  const rowIssues = barcode ? barcodeCheck.issues : capacity.issues;
+  const capacityIssues = useMemo(
+    () => new Map([...rowIssues, ...payloadIssues].map(issue => [issue.row, issue])),
+    [rowIssues, payloadIssues],
+  );
+  const previewMetrics = useMemo(() => {
+    if (barcode || !previewText) return null;
+    try {
+      return measureQr(previewText, qrSizing);
+    } catch {
+      return null;
+    }
+  }, [barcode, previewText, qrSizing]);
+  // The logo has to be safe for the smallest and largest codes in the file;
+  // before a file is loaded, the preview row stands in for it.
+  const maxLogo = useMemo(() => {
+    const smallest = capacity.shortest ?? previewMetrics;
+    const largest = capacity.longest ?? previewMetrics;
+    if (!smallest || !largest) return 0;
+    return maxLogoRatio(qrConfig.errorCorrectionLevel, Math.min(smallest.version, largest.version), largest.version);
+  }, [capacity.shortest, capacity.longest, previewMetrics, qrConfig.errorCorrectionLevel]);
+
+  useEffect(() => {
+    loadJob()
+      .then(saved => {
+        if (saved) setSavedJob(saved);
       })
-    );
-
-    // Save each image to its zip
-    blobs.forEach((item, batchIndex) => {
-      if (!item) return;
-      const fullIndex = i + batchIndex;
-      const { blob, link } = item;
-
-      const zipIndex = Math.floor(fullIndex / IMAGES_PER_ZIP);
-      if (!zipFiles[zipIndex]) {
-        zipFiles[zipIndex] = new JSZip();
-        zipImageCounts[zipIndex] = 0;
-      }
-
-      const query = link.split("?")[1];
-      let fileName = "";
+      .catch(error => console.error("Could not load saved job:", error));
+  }, []);
+
+  // `isNew` jobs have no checkpoint yet, and get one once their output is open.
+  const runJob = useCallback(async (job: ExportJob, jobProgress: JobProgress, isNew = false) => {
+    if (!isRenderPoolSupported()) {
+      toast({
+        variant: "destructive",
+        title: "Unsupported Browser",
+        description: "Batch rendering needs Web Workers and OffscreenCanvas. Please use a recent version of Chrome, Edge, Firefox or Safari.",
+      });
+      return;
+    }
 
-      if (query) {
-        const params = new URLSearchParams(query);
-        const lastParam = Array.from(params.values()).pop();
-        fileName = lastParam?.replace(/[^a-zA-Z0-9_-]/g, "_") || "";
+    // A job that writes into a folder opens its files there as it goes.
+    let sink: ArchiveSink | null = null;
+    try {
+      if (job.directory) await ensureWritable(job.directory.handle);
+      else sink = await openArchiveSink(partName(job, jobProgress));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        toast({ variant: "destructive", title: job.directory ? "Cannot Write to Folder" : "Cannot Save Archive", description: error instanceof Error ? error.message : String(error) });
       }
+      return;
+    }
+    // Not before: writing the background and every row to IndexedDB can take
+    // long enough that the click no longer allows the save dialog.
+    if (isNew) await saveJob(job, jobProgress).catch(error => console.error("Could not checkpoint job:", error));
+
+    jobControl.current = { pauseRequested: false, cancelRequested: false };
+    setSavedJob(null);
+    setJobState("running");
+    const slotCount = jobSlots(job).length;
+    setProgress((jobProgress.currentRow / slotCount) * 100);
+
+    try {
+      const { outcome, progress: finalProgress } = await runExportJob(job, jobProgress, sink, openDownloadSink, jobControl.current, p => {
+        setProgress(Math.min((p.currentRow / slotCount) * 100, 100));
+      });
 
-      if (!fileName) {
-        fileName = `qr_image_${String(fullIndex + 1).padStart(4, "0")}`;
+      if (outcome === "paused") {
+        setSavedJob({ job, progress: finalProgress });
+        setJobState("paused");
+        const lastPart = finalProgress.finishedParts[finalProgress.finishedParts.length - 1];
+        toast({ title: "Paused", description: `Saved ${lastPart.name}. ${Math.round((finalProgress.nextRow / slotCount) * 100)}% done.` });
+        return;
       }
 
-      zipFiles[zipIndex].file(`${fileName}.jpg`, blob);
-      zipImageCounts[zipIndex]++;
-    });
-
-    setProgress(((i + BATCH_SIZE) / links.length) * 100);
+      await clearJob();
+      setJobState("idle");
+      if (outcome === "cancelled") {
+        toast({
+          title: "Cancelled",
+          description: job.directory
+            ? "The export was stopped. Files already written to the folder are kept."
+            : "The export was stopped and the unfinished archive discarded.",
+        });
+      } else {
+        setSummary({ totalRows: job.links.length, progress: finalProgress, verified: job.verify });
+      }
+    } catch (error) {
+      // Keep the checkpoint so the job can be resumed from its last finished part.
+      const saved = await loadJob().catch(() => null);
+      setSavedJob(saved);
+      setJobState(saved ? "paused" : "idle");
+      toast({ variant: "destructive", title: "Export Failed", description: error instanceof Error ? error.message : String(error) });
+    }
+  }, [toast]);
+
+  const generateImages = useCallback(async (confirmed = false) => {
+    if (!bgImage || links.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Missing Inputs",
+        description: "Please upload a background image and a data file with at least one row.",
+      });
+      return;
+    }
 
-    // Immediately flush any full zip(s)
-    for (let z = 0; z < zipFiles.length; z++) {
-      if (zipFiles[z] && zipImageCounts[z] === IMAGES_PER_ZIP) {
-        const zipBlob = await zipFiles[z].generateAsync({ type: "blob" });
+    const unmapped = unmappedFields(payload);
+    if (unmapped.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Columns Not Chosen",
+        description: `Choose a column for ${unmapped.join(", ")}.`,
+      });
+      return;
+    }
 
-        const a = document.createElement("a");
-        a.href = URL.createObjectURL(zipBlob);
-        a.download = `uvify_part${z + 1}.zip`;
+    if (!barcode && qrConfig.logo && qrConfig.logo.sizeRatio > maxLogo) {
+      toast({
+        variant: "destructive",
+        title: "Logo Too Large",
+        description: `At level ${qrConfig.errorCorrectionLevel} the logo can cover at most ${Math.round(maxLogo * 100)}% of the code. Make it smaller or raise the error correction level.`,
+      });
+      return;
+    }
 
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(a.href);
+    if (fileExtension && fileNameError) {
+      toast({ variant: "destructive", title: "Invalid File Name Template", description: fileNameError });
+      return;
+    }
+    if (fileNames.collisions === "fail" && fileNamePlan && fileNamePlan.duplicates.length > 0) {
+      const [{ row, name }] = fileNamePlan.duplicates;
+      toast({
+        variant: "destructive",
+        title: "Duplicate File Names",
+        description: `${fileNamePlan.duplicates.length} row(s) share a file name with an earlier row, starting with row ${row + 1} (${name}). Change the template or how repeats are handled.`,
+      });
+      return;
+    }
 
-        zipFiles[z] = null as any; // mark flushed
-        zipImageCounts[z] = 0;
-      }
+    if (folderOutput.enabled && !folderOutput.handle) {
+      toast({ variant: "destructive", title: "No Folder Chosen", description: "Choose the folder to save into, or turn off saving into a folder." });
+      return;
+    }
+    const archiveError = archiveTemplateError(archives.nameTemplate);
+    if (archiveError) {
+      toast({ variant: "destructive", title: "Invalid Archive Name Template", description: archiveError });
+      return;
+    }
+    // Only the first archive is saved from the click itself; browsers may
+    // hold back the rest unless the user allows multiple downloads.
+    if (!confirmed && archiveCount !== 1) {
+      setConfirmDownloads(true);
+      return;
     }
-  }
 
-  // Final flush for any partial zips
-  for (let z = 0; z < zipFiles.length; z++) {
-    if (zipFiles[z]) {
-      const zipBlob = await zipFiles[z].generateAsync({ type: "blob" });
+    const job: ExportJob = {
+      background: bgImage.file,
+      backgroundName: bgImage.file.name,
+      logo: !barcode && qrConfig.logo ? logoImage?.file ?? null : null,
+      bgDimensions,
+      qrConfig,
+      payload,
+      format,
+      pdf: pdfOptions,
+      svg: svgOptions,
+      imposition,
+      fileNames,
+      archives,
+      directory: folderOutput.enabled && folderOutput.handle ? { handle: folderOutput.handle, existingFiles: folderOutput.existingFiles } : null,
+      links,
+      retries,
+      verify: canVerify && verify,
+      createdAt: Date.now(),
+    };
+    try {
+      jobSlots(job);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Cannot Impose Cards", description: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    const jobProgress: JobProgress = { nextRow: 0, currentRow: 0, finishedParts: [], failures: [], skipped: [] };
+    await runJob(job, jobProgress, true);
+  }, [bgImage, logoImage, maxLogo, barcode, links, qrConfig, payload, bgDimensions, format, pdfOptions, svgOptions, imposition, fileExtension, fileNameError, fileNamePlan, fileNames, archives, archiveCount, folderOutput, retries, canVerify, verify, runJob, toast]);
 
-      const a = document.createElement("a");
-      a.href = URL.createObjectURL(zipBlob);
-      a.download = `uvify_part${z + 1}.zip`;
+  const pauseJob = () => {
+    jobControl.current.pauseRequested = true;
+    setJobState("pausing");
+  };
 
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(a.href);
+  const resumeJob = async () => {
+    if (!savedJob) return;
+    const { job, progress: jobProgress } = savedJob;
+
+    // After a reload the inputs only exist in the checkpoint, so restore them
+    // to keep the form and preview in step with the job being resumed.
+    if (!bgImage) {
+      const file = new File([job.background], job.backgroundName, { type: job.background.type });
+      const bitmap = await createImageBitmap(file);
+      setBgImage({ file, url: URL.createObjectURL(file), width: bitmap.width, height: bitmap.height });
+      bitmap.close();
+      if (job.logo) setLogoImage({ file: job.logo, url: URL.createObjectURL(job.logo) });
+      setBgDimensions(job.bgDimensions);
+      setQrConfig(job.qrConfig);
+      setPayload(job.payload);
+      setFormat(job.format);
+      setPdfOptions(job.pdf);
+      setSvgOptions(job.svg);
+      setImposition(job.imposition);
+      setFileNames(job.fileNames);
+      setArchives(job.archives);
+      setFolderOutput(job.directory ? { enabled: true, ...job.directory } : DEFAULT_FOLDER_OUTPUT);
+      setVerify(job.verify);
+      setLinks(job.links);
+      setColumns(Object.keys(job.links[0] ?? {}));
+      setTables([]);
+      setDetectedFormat(null);
     }
-  }
-
-  setIsProcessing(false);
-  toast({
-    title: "Success!",
-    description: "All images and ZIP files have been generated and downloaded.",
-  });
-}, [bgImage, links, qrConfig, bgDimensions, toast]);
+    await runJob(job, { ...jobProgress, currentRow: jobProgress.nextRow });
+  };
 
+  const cancelJob = async () => {
+    if (jobState === "running" || jobState === "pausing") {
+      jobControl.current.cancelRequested = true;
+      return;
+    }
+    await clearJob().catch(error => console.error("Could not clear saved job:", error));
+    setSavedJob(null);
+    setJobState("idle");
+    setProgress(0);
+  };
 
+  const slideCaption = (index: number) => {
+    if (sheetPlan) {
+      const { sheet, slot } = rowPlacement(index, links.length, sheetPlan.slots.length, imposition.order);
+      return `Sheet ${sheet + 1}, position ${slot + 1}`;
+    }
+    if (!fileExtension) return `Page ${index + 1}`;
+    if (!fileNamePlan) return `Row ${index + 1}`;
+    const name = fileNamePlan.names[index];
+    return name === null ? `Row ${index + 1}: skipped, the file name is taken` : filePath(fileNamePlan.folders[index], name);
+  };
 
   const fileInputStyles = "file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20 cursor-pointer";
 
-  const csvDescription = useMemo(() => {
-    return `File must have column 'links'. Found ${links.length} row(s).`
-  }, [links.length]);
-
+  const dataDescription = useMemo(() => {
+    const read = detectedFormat ? ` Read as ${detectedFormat}.` : "";
+    return `CSV, TSV, Excel, ODS, JSON or NDJSON with a header row. Found ${links.length} row(s).${read}`;
+  }, [links.length, detectedFormat]);
+
+
+  // Only the selected slide is rendered; the others show the bare background
+  // until they are scrolled into view.
+  const renderPreviewFrame = (selected: boolean) => (
+    <div className="aspect-video bg-muted/50 rounded-lg flex items-center justify-center relative overflow-hidden border" style={{ aspectRatio: `${bgDimensions.widthCm} / ${bgDimensions.heightCm}` }}>
+      {bgImage ? (
+        <>
+          <Image src={(selected && preview.url) || bgImage.url} alt="Rendered Preview" fill className="object-contain" />
+          {selected && preview.isRendering && (
+            <div className="absolute top-2 right-2 rounded-full bg-black/50 p-1.5">
+              <Loader2 className="h-4 w-4 animate-spin text-white"/>
+            </div>
+          )}
+          {selected && preview.error && (
+            <p className="absolute bottom-2 left-2 right-2 text-xs text-white bg-destructive/90 px-2 py-1 rounded-sm">{preview.error}</p>
+          )}
+        </>
+      ) : (
+        <div className="text-center text-muted-foreground p-8">
+          <FileImage className="mx-auto h-16 w-16 opacity-50"/>
+          <p className="mt-4 font-medium">Upload a background image to see the preview</p>
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-background text-foreground font-body">
@@ -418,10 +598,24 @@ export default function Home() {
                  <Input id="bg-upload" type="file" accept="image/*" onChange={handleBgImageChange} className={fileInputStyles}/>
                </div>
                <div>
-                  <Label htmlFor="csv-upload" className="mb-2 block">Links CSV File</Label>
-                  <CardDescription className="mb-2 text-xs">{csvDescription}</CardDescription>
-                  <Input id="csv-upload" ref={csvInputRef} type="file" accept=".csv,text/csv" onChange={handleCsvChange} disabled={!bgImage} className={fileInputStyles}/>
+                  <Label htmlFor="data-upload" className="mb-2 block">Data File</Label>
+                  <CardDescription className="mb-2 text-xs">{dataDescription}</CardDescription>
+                  <Input id="data-upload" ref={dataInputRef} type="file" accept={DATA_FILE_ACCEPT} onChange={handleDataChange} disabled={!bgImage} className={fileInputStyles}/>
+                  {tables.length > 1 && (
+                    <div className="mt-3 space-y-2">
+                      <Label htmlFor="data-sheet">Sheet</Label>
+                      <Select value={tableName} onValueChange={handleTableChange}>
+                        <SelectTrigger id="data-sheet"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {tables.map(table => (
+                            <SelectItem key={table.name} value={table.name}>{table.name} ({table.rows.length} rows)</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                </div>
+               <PayloadSettings value={payload} columns={columns} rows={links} onChange={setPayload} issues={payloadIssues} />
             </CardContent>
           </Card>
 
@@ -441,29 +635,202 @@ export default function Home() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="symbology">Code Type</Label>
+                <Select value={qrConfig.symbology} onValueChange={value => setQrConfig(prev => ({ ...prev, symbology: value as CodeSymbology }))}>
+                  <SelectTrigger id="symbology"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="qr">QR Code</SelectItem>
+                    {(Object.keys(SYMBOLOGIES) as Symbology[]).map(key => (
+                      <SelectItem key={key} value={key}>{SYMBOLOGIES[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-4">
-                <Label>QR Size (cm): {qrConfig.qrSizeCm.toFixed(1)}</Label>
-                <Slider value={[qrConfig.qrSizeCm]} onValueChange={([v]) => handleQrConfigChange('qrSizeCm', v)} min={1} max={Math.min(bgDimensions.widthCm, bgDimensions.heightCm)} step={0.1}/>
+                <Label>{barcode && !SYMBOLOGIES[barcode].isSquare ? "Code Width" : barcode ? "Code Size" : "QR Size"} (cm): {qrConfig.qrSizeCm.toFixed(1)}</Label>
+                <Slider value={[qrConfig.qrSizeCm]} onValueChange={([v]) => handleQrConfigChange('qrSizeCm', v)} min={1} max={barcode && !SYMBOLOGIES[barcode].isSquare ? bgDimensions.widthCm : Math.min(bgDimensions.widthCm, bgDimensions.heightCm)} step={0.1}/>
               </div>
+              {barcode && !SYMBOLOGIES[barcode].isSquare && (
+                <div className="space-y-4">
+                  <Label>Code Height (cm): {qrConfig.barcodeHeightCm.toFixed(1)}</Label>
+                  <Slider value={[qrConfig.barcodeHeightCm]} onValueChange={([v]) => handleQrConfigChange('barcodeHeightCm', v)} min={0.5} max={bgDimensions.heightCm} step={0.1}/>
+                </div>
+              )}
               <div className="space-y-4">
                 <Label>Top Margin (cm): {qrConfig.marginTopCm.toFixed(1)}</Label>
-                <Slider value={[qrConfig.marginTopCm]} onValueChange={([v]) => handleQrConfigChange('marginTopCm', v)} min={0} max={bgDimensions.heightCm - qrConfig.qrSizeCm} step={0.1}/>
+                <Slider value={[qrConfig.marginTopCm]} onValueChange={([v]) => handleQrConfigChange('marginTopCm', v)} min={0} max={bgDimensions.heightCm - codeSize.heightCm} step={0.1}/>
               </div>
               <div className="space-y-4">
                 <Label>Right Margin (cm): {qrConfig.marginRightCm.toFixed(1)}</Label>
-                <Slider value={[qrConfig.marginRightCm]} onValueChange={([v]) => handleQrConfigChange('marginRightCm', v)} min={0} max={bgDimensions.widthCm - qrConfig.qrSizeCm} step={0.1}/>
+                <Slider value={[qrConfig.marginRightCm]} onValueChange={([v]) => handleQrConfigChange('marginRightCm', v)} min={0} max={bgDimensions.widthCm - codeSize.widthCm} step={0.1}/>
+              </div>
+              <QrAppearanceSettings value={qrConfig} onChange={changes => setQrConfig(prev => ({ ...prev, ...changes }))} warnings={contrastWarnings} />
+              {barcode ? (
+                <div className="space-y-2">
+                  {SYMBOLOGIES[barcode].isLinear && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox id="human-readable" checked={qrConfig.humanReadable} onCheckedChange={checked => setQrConfig(prev => ({ ...prev, humanReadable: checked === true }))} />
+                      <Label htmlFor="human-readable">Print the text under the bars</Label>
+                    </div>
+                  )}
+                  {barcodeCheck.isChecking && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground"><Loader2 className="h-3 w-3 animate-spin"/>Checking {links.length} row(s)...</p>
+                  )}
+                  {barcodeCheck.issues.length > 0 && (
+                    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs">
+                      <p className="flex items-center gap-1 font-medium"><TriangleAlert className="h-3.5 w-3.5"/>{barcodeCheck.issues.length} row(s) can&apos;t be encoded</p>
+                      <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                        {barcodeCheck.issues.slice(0, 5).map(issue => (
+                          <li key={issue.row}>Row {issue.row + 1}: {issue.message}</li>
+                        ))}
+                        {barcodeCheck.issues.length > 5 && <li>and {barcodeCheck.issues.length - 5} more.</li>}
+                      </ul>
+                      <p className="mt-1">These rows are skipped and listed in the error report.</p>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <QrStyleEditor value={qrConfig.style} onChange={style => setQrConfig(prev => ({ ...prev, style }))} decodeStatus={decodeStatus} />
+                  <div className="space-y-2">
+                    <Label htmlFor="error-correction">Error Correction</Label>
+                    <Select value={qrConfig.errorCorrectionLevel} onValueChange={value => setQrConfig(prev => ({ ...prev, errorCorrectionLevel: value as ErrorCorrectionLevel }))}>
+                      <SelectTrigger id="error-correction"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ERROR_CORRECTION_LEVELS) as ErrorCorrectionLevel[]).map(level => (
+                          <SelectItem key={level} value={level}>{ERROR_CORRECTION_LEVELS[level]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {previewMetrics && (
+                      <p className="text-xs text-muted-foreground">
+                        {links.length > 0 ? `Row ${previewRow + 1}` : "Sample"}: version {previewMetrics.version}, {previewMetrics.moduleCount} × {previewMetrics.moduleCount} modules, {previewMetrics.moduleMm.toFixed(2)} mm per module.
+                        {capacity.longest && links.length > 1 && ` Longest link: version ${capacity.longest.version}, ${capacity.longest.moduleMm.toFixed(2)} mm.`}
+                      </p>
+                    )}
+                    {capacity.isChecking && (
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground"><Loader2 className="h-3 w-3 animate-spin"/>Checking {links.length} row(s)...</p>
+                    )}
+                    {capacity.issues.length > 0 && (
+                      <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs">
+                        <p className="flex items-center gap-1 font-medium"><TriangleAlert className="h-3.5 w-3.5"/>{capacity.issues.length} row(s) may not scan</p>
+                        <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                          {capacity.issues.slice(0, 5).map(issue => (
+                            <li key={issue.row}>Row {issue.row + 1}: {issue.message}</li>
+                          ))}
+                          {capacity.issues.length > 5 && <li>and {capacity.issues.length - 5} more.</li>}
+                        </ul>
+                        <p className="mt-1">Use a lower level or a larger code to keep modules at {MIN_MODULE_MM} mm or more.</p>
+                      </div>
+                    )}
+                  </div>
+                  <QrLogoSettings
+                    value={qrConfig.logo}
+                    imageUrl={logoImage?.url ?? null}
+                    onChange={logo => setQrConfig(prev => ({ ...prev, logo }))}
+                    onImageChange={handleLogoImageChange}
+                    maxRatio={maxLogo}
+                    level={qrConfig.errorCorrectionLevel}
+                  />
+                </>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="output-format">Output Format</Label>
+                <Select value={format} onValueChange={value => setFormat(value as OutputFormat)}>
+                  <SelectTrigger id="output-format"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(key => (
+                      <SelectItem key={key} value={key}>{OUTPUT_FORMATS[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {format === "pdf" && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="pdf-bleed">Bleed (mm)</Label>
+                    <Input id="pdf-bleed" type="number" min={0} max={10} step={0.5} value={pdfOptions.bleedMm} onChange={e => setPdfOptions(prev => ({ ...prev, bleedMm: Math.max(0, +e.target.value || 0) }))} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox id="pdf-extend" checked={pdfOptions.extendBackground} onCheckedChange={checked => setPdfOptions(prev => ({ ...prev, extendBackground: checked === true }))} />
+                    <Label htmlFor="pdf-extend">Extend background into bleed</Label>
+                  </div>
+                  {!imposition.enabled && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox id="pdf-crop-marks" checked={pdfOptions.cropMarks} onCheckedChange={checked => setPdfOptions(prev => ({ ...prev, cropMarks: checked === true }))} />
+                      <Label htmlFor="pdf-crop-marks">Crop marks</Label>
+                    </div>
+                  )}
+                </div>
+              )}
+              {format === "svg" && (
+                <div className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox id="svg-embed" checked={svgOptions.embedBackground} onCheckedChange={checked => setSvgOptions({ embedBackground: checked === true })} />
+                    <Label htmlFor="svg-embed">Embed background in each SVG</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">When off, the SVGs link to a single background file stored alongside them in the archive.</p>
+                </div>
+              )}
+              <ImpositionSettings value={imposition} onChange={setImposition} card={bgDimensions} />
+              {fileExtension && (
+                <FileNameSettings value={fileNames} onChange={setFileNames} plan={fileNamePlan} error={fileNameError} />
+              )}
+              <OutputFolderSettings value={folderOutput} onChange={setFolderOutput} />
+              {/* In a folder, only PDFs are still named as parts. */}
+              {(!folderOutput.enabled || format === "pdf") && (
+                <ArchiveSettings value={archives} onChange={setArchives} extension={OUTPUT_FORMATS[format].partExtension} firstFolder={firstFolder} archiveCount={archiveCount} canSplit={!folderOutput.enabled} />
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="retries">Retries per Row</Label>
+                <Input id="retries" type="number" min={0} max={5} value={retries} onChange={e => setRetries(Math.min(5, Math.max(0, Math.floor(+e.target.value || 0))))} />
+                <p className="text-xs text-muted-foreground">Rows that still fail after this many retries are listed in the error report.</p>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox id="verify" checked={canVerify && verify} disabled={!canVerify} onCheckedChange={checked => setVerify(checked === true)} />
+                  <Label htmlFor="verify">Verify every image by decoding it</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {canVerify
+                    ? "Reads the QR code back from each finished image. Rows that don't match their link are left out and listed in the error report. Slows the export down."
+                    : "Available for QR codes in image formats."}
+                </p>
               </div>
             </CardContent>
           </Card>
           
           <div className="mt-auto pt-6 flex flex-col items-center">
-            <Button size="lg" className="w-full text-lg font-bold" onClick={generateImages} disabled={!bgImage || links.length === 0 || isProcessing}>
+            {savedJob && jobState === "idle" && (
+              <div className="w-full mb-4 rounded-lg border bg-card p-4 text-sm">
+                <p className="font-medium">Unfinished export found</p>
+                <p className="text-muted-foreground mt-1">
+                  {Math.round((savedJob.progress.nextRow / jobSlots(savedJob.job).length) * 100)}% of {savedJob.job.links.length} row(s) were saved in {savedJob.progress.finishedParts.length} part(s). Resuming continues where the last part ended.
+                </p>
+                <div className="flex gap-2 mt-3">
+                  <Button size="sm" onClick={resumeJob}><Play className="mr-2 h-4 w-4"/>Resume</Button>
+                  <Button size="sm" variant="outline" onClick={cancelJob}><X className="mr-2 h-4 w-4"/>Discard</Button>
+                </div>
+              </div>
+            )}
+            <Button size="lg" className="w-full text-lg font-bold" onClick={() => generateImages()} disabled={!bgImage || links.length === 0 || isProcessing}>
               {isProcessing ? <Loader2 className="animate-spin mr-2"/> : <Download className="mr-2"/>}
-              {isProcessing ? `Processing...` : `Generate & Download Zip`}
+              {isProcessing ? `Processing...` : folderOutput.enabled ? `Generate & Save to Folder` : `Generate & Download ${downloadLabel}`}
             </Button>
             {isProcessing && <div className="w-full text-center mt-2">
-              <Progress value={progress} className="w-full h-3" />
-              <p className="text-sm text-muted-foreground mt-1">{Math.round(progress)}% Complete</p>
+              <div className="flex items-center gap-2">
+                <Progress value={progress} className="w-full h-3" />
+                {jobState === "paused" ? (
+                  <Button size="icon" variant="outline" onClick={resumeJob} aria-label="Resume"><Play className="h-4 w-4"/></Button>
+                ) : (
+                  <Button size="icon" variant="outline" onClick={pauseJob} disabled={jobState === "pausing"} aria-label="Pause"><Pause className="h-4 w-4"/></Button>
+                )}
+                <Button size="icon" variant="outline" onClick={cancelJob} aria-label="Cancel"><X className="h-4 w-4"/></Button>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {jobState === "pausing" ? "Finishing current part..." : jobState === "paused" ? `Paused at ${Math.round(progress)}%` : `${Math.round(progress)}% Complete`}
+              </p>
             </div>}
           </div>
         </div>
@@ -472,33 +839,52 @@ export default function Home() {
           <Card className="sticky top-8 shadow-lg">
              <CardHeader>
                 <CardTitle>Live Preview</CardTitle>
-                <CardDescription>A representation of your final image layout. The QR code will be placed relative to the background image content, which will be centered and scaled to fit.</CardDescription>
+                <CardDescription>Rendered by the export pipeline, so this is exactly the image that will be downloaded. {links.length === 0 && "Sample content is shown until a data file is loaded."}</CardDescription>
              </CardHeader>
-             <CardContent>
-               <div className="aspect-video bg-muted/50 rounded-lg flex items-center justify-center relative overflow-hidden border" style={{ aspectRatio: `${bgDimensions.widthCm} / ${bgDimensions.heightCm}` }}>
-                {bgImage ? (
-                  <>
-                    <Image src={bgImage.url} alt="Background Preview" fill className="object-contain" />
-                    <div 
-                      className="bg-primary/50 border-2 border-dashed border-accent"
-                      style={previewStyle}
-                    >
-                      <div className="w-full h-full flex items-center justify-center">
-                        <p className="text-white text-xs font-bold bg-black/50 px-2 py-1 rounded-sm">QR</p>
-                      </div>
-                    </div>
-                  </>
-                ) : (
-                  <div className="text-center text-muted-foreground p-8">
-                    <FileImage className="mx-auto h-16 w-16 opacity-50"/>
-                    <p className="mt-4 font-medium">Upload a background image to see the preview</p>
-                  </div>
-                )}
-               </div>
+             <CardContent className="space-y-4">
+               {bgImage && links.length > 0 ? (
+                 <RowNavigator
+                   rowCount={links.length}
+                   index={previewRow}
+                   onIndexChange={setPreviewRow}
+                   renderSlide={(index, selected) => (
+                     <div className="space-y-2">
+                       {renderPreviewFrame(selected)}
+                       <div className="text-sm">
+                         <p className="font-medium truncate">{slideCaption(index)}</p>
+                         <p className="text-muted-foreground truncate" title={rowText(links[index]) ?? ""}>{rowText(links[index])}</p>
+                         {capacityIssues.has(index) && (
+                           <p className="flex items-center gap-1 text-xs text-amber-600"><TriangleAlert className="h-3.5 w-3.5 shrink-0"/>{capacityIssues.get(index)!.message}</p>
+                         )}
+                       </div>
+                     </div>
+                   )}
+                 />
+               ) : (
+                 renderPreviewFrame(true)
+               )}
              </CardContent>
           </Card>
         </div>
       </main>
+      <ExportSummaryDialog summary={summary} onClose={() => setSummary(null)} />
+      <AlertDialog open={confirmDownloads} onOpenChange={setConfirmDownloads}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Allow Multiple Downloads</AlertDialogTitle>
+            <AlertDialogDescription>
+              {archiveCount === null
+                ? `Archives are capped at ${archives.maxMegabytes} MB, so a large export is saved as several of them.`
+                : `This export is saved as ${archiveCount} archives.`}
+              {" "}The first is saved when you start; the others download on their own as they finish. Most browsers ask once whether this site may download multiple files. Allow it, or those archives are lost and the export has to be run again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => generateImages(true)}>Start Export</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
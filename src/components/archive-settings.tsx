@@ -0,0 +1,93 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ARCHIVE_SPLITS,
+  MIN_ARCHIVE_MEGABYTES,
+  archiveTemplateError,
+  renderArchiveName,
+  type ArchiveOptions,
+  type ArchiveSplit,
+} from "@/lib/archive-names";
+
+type ArchiveSettingsProps = {
+  value: ArchiveOptions;
+  onChange: (value: ArchiveOptions) => void;
+  // Extension of each part, such as "zip" or "pdf".
+  extension: string;
+  // The first folder, when files are sorted into folders; null when they
+  // aren't, which rules out an archive per folder.
+  firstFolder: string | null;
+  // How many archives the export will make, or null when that depends on
+  // their size.
+  archiveCount: number | null;
+  // False when saving into a folder, where only the name is used.
+  canSplit: boolean;
+};
+
+const toCount = (value: string, min: number) => Math.max(min, Math.floor(+value || 0));
+
+export function ArchiveSettings({ value, onChange, extension, firstFolder, archiveCount, canSplit }: ArchiveSettingsProps) {
+  const update = (changes: Partial<ArchiveOptions>) => onChange({ ...value, ...changes });
+  const error = archiveTemplateError(value.nameTemplate);
+  const example = error ? null : `${renderArchiveName(value, { createdAt: Date.now(), part: 1, folder: firstFolder ?? "" })}.${extension}`;
+  const mayBeSeveral = archiveCount === null || archiveCount > 1;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <Label className="block">Archives</Label>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="archive-project" className="text-xs">Project Name</Label>
+          <Input id="archive-project" value={value.projectName} onChange={e => update({ projectName: e.target.value })} />
+        </div>
+        {canSplit && <div className="space-y-2">
+          <Label htmlFor="archive-split" className="text-xs">Split</Label>
+          <Select value={value.split} onValueChange={split => update({ split: split as ArchiveSplit })}>
+            <SelectTrigger id="archive-split"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ARCHIVE_SPLITS) as ArchiveSplit[]).map(key => (
+                <SelectItem key={key} value={key} disabled={key === "folder" && firstFolder === null}>{ARCHIVE_SPLITS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>}
+      </div>
+      {canSplit && value.split === "size" && (
+        <div className="space-y-2">
+          <Label htmlFor="archive-max-size" className="text-xs">Largest Archive (MB)</Label>
+          <Input id="archive-max-size" type="number" min={MIN_ARCHIVE_MEGABYTES} value={value.maxMegabytes} onChange={e => update({ maxMegabytes: toCount(e.target.value, MIN_ARCHIVE_MEGABYTES) })} />
+        </div>
+      )}
+      {canSplit && value.split === "count" && (
+        <div className="space-y-2">
+          <Label htmlFor="archive-max-images" className="text-xs">Images per Archive</Label>
+          <Input id="archive-max-images" type="number" min={1} value={value.maxImages} onChange={e => update({ maxImages: toCount(e.target.value, 1) })} />
+        </div>
+      )}
+      {canSplit && value.split === "folder" && firstFolder === null && (
+        <p className="text-xs text-destructive">Set a folder template under File Names to split by folder.</p>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="archive-name" className="text-xs">Archive Name</Label>
+        <Input id="archive-name" className="font-mono text-sm" value={value.nameTemplate} onChange={e => update({ nameTemplate: e.target.value })} />
+        <p className="text-xs text-muted-foreground">
+          Use <code>{"{project}"}</code>, <code>{"{timestamp}"}</code>, <code>{"{part}"}</code> or <code>{"{part:000}"}</code>, and <code>{"{folder}"}</code> with an archive per folder.
+        </p>
+        {error
+          ? <p className="text-xs text-destructive">{error}</p>
+          : <p className="truncate font-mono text-xs text-muted-foreground" title={example ?? ""}>{example}</p>}
+      </div>
+      {canSplit && value.split !== "none" && mayBeSeveral && (
+        <p className="flex items-start gap-1 text-xs text-amber-600">
+          <TriangleAlert className="h-3.5 w-3.5 shrink-0"/>
+          {archiveCount === null ? "The export may be saved as several archives." : `The export will be saved as ${archiveCount} archives.`}
+          {" "}After the first, they download without asking, and browsers often block several downloads from one page. Allow them when asked.
+        </p>
+      )}
+    </div>
+  );
+}
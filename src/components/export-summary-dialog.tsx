@@ -0,0 +1,100 @@
+"use client";
+
+import { CheckCircle2, FileWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { buildErrorReport } from "@/lib/error-report";
+import type { JobProgress } from "@/lib/job-store";
+import { downloadBlob } from "@/lib/utils";
+
+export type ExportSummary = {
+  totalRows: number;
+  progress: JobProgress;
+  // Whether every image was decoded and checked against its link.
+  verified: boolean;
+};
+
+type ExportSummaryDialogProps = {
+  summary: ExportSummary | null;
+  onClose: () => void;
+};
+
+const MAX_LISTED_PARTS = 5;
+
+export function ExportSummaryDialog({ summary, onClose }: ExportSummaryDialogProps) {
+  const failures = summary?.progress.failures ?? [];
+  const skipped = summary?.progress.skipped ?? [];
+  const succeeded = summary?.progress.finishedParts.reduce((sum, part) => sum + part.imageCount, 0) ?? 0;
+  // An archive per folder can mean hundreds of names, while every part of
+  // an export to a folder has the folder's name.
+  const partNames = [...new Set(summary?.progress.finishedParts.map(part => part.name))];
+  const parts = partNames.length > MAX_LISTED_PARTS
+    ? `${partNames.length} archives`
+    : partNames.join(", ");
+  const unreadable = failures.filter(failure => failure.kind === "verify").length;
+  const duplicates = skipped.filter(skip => skip.reason === "name").length;
+  const kept = skipped.filter(skip => skip.reason === "exists").length;
+  // Skipped rows are listed with the failures, but aren't errors and stay
+  // out of the error report.
+  const listed = [
+    ...failures.map(failure => ({ row: failure.row, link: failure.link, note: failure.error, isError: true })),
+    ...skipped.map(skip => ({ row: skip.row, link: skip.link, note: skip.detail, isError: false })),
+  ].sort((a, b) => a.row - b.row);
+
+  return (
+    <Dialog open={!!summary} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {failures.length === 0
+              ? <CheckCircle2 className="text-primary"/>
+              : <FileWarning className="text-destructive"/>}
+            Export Finished
+          </DialogTitle>
+          <DialogDescription>
+            {succeeded} of {summary?.totalRows ?? 0} image(s) written to {parts}.
+            {failures.length > 0 && ` ${failures.length} row(s) failed and were left out.`}
+            {unreadable > 0 && ` ${unreadable} of them did not decode back to their link.`}
+            {kept > 0 && ` ${kept} file(s) already in the folder were kept.`}
+            {duplicates > 0 && ` ${duplicates} row(s) were skipped because an earlier row had the same file name.`}
+            {summary?.verified && unreadable === 0 && " Every QR code was decoded and matched its link."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {listed.length > 0 && (
+          <ScrollArea className="max-h-72 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Payload</TableHead>
+                  <TableHead>{failures.length > 0 ? "Error" : "Note"}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {listed.map(entry => (
+                  <TableRow key={entry.row}>
+                    <TableCell>{entry.row + 1}</TableCell>
+                    <TableCell className="max-w-48 truncate" title={entry.link}>{entry.link}</TableCell>
+                    <TableCell className={entry.isError ? undefined : "text-muted-foreground"}>{entry.note}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {failures.length > 0 && (
+            <Button variant="outline" onClick={() => downloadBlob(buildErrorReport(failures), "uvify_errors.csv")}>
+              Download Error Report
+            </Button>
+          )}
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
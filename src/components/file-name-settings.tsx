@@ -0,0 +1,84 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NAME_COLLISIONS, filePath, type FileNameOptions, type FileNamePlan, type NameCollision } from "@/lib/file-names";
+
+type FileNameSettingsProps = {
+  value: FileNameOptions;
+  onChange: (value: FileNameOptions) => void;
+  // The names the template gives the loaded rows (or the sample row), or
+  // null while the template has an error.
+  plan: FileNamePlan | null;
+  error: string | null;
+};
+
+const PREVIEW_COUNT = 3;
+
+const DUPLICATE_OUTCOMES: Record<NameCollision, string> = {
+  suffix: "They get a number added to the name.",
+  skip: "They are left out and listed in the error report.",
+  fail: "The export won't start until the names are unique.",
+};
+
+export function FileNameSettings({ value, onChange, plan, error }: FileNameSettingsProps) {
+  const paths = plan?.names.flatMap((name, row) => (name === null ? [] : [filePath(plan.folders[row], name)])) ?? [];
+  const preview = paths.slice(0, PREVIEW_COUNT);
+  const duplicates = plan?.duplicates.length ?? 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-2">
+        <Label htmlFor="file-name-template">File Names</Label>
+        <Input
+          id="file-name-template"
+          className="font-mono text-sm"
+          value={value.template}
+          onChange={e => onChange({ ...value, template: e.target.value })}
+          placeholder="{col:customer}_{row:0000}"
+        />
+        <p className="text-xs text-muted-foreground">
+          Use <code>{"{col:name}"}</code> or <code>{"{name}"}</code> for a column, <code>{"{row}"}</code> or <code>{"{row:0000}"}</code> for the row number, and <code>{"{param:id}"}</code> for a query parameter of the link (<code>{"{param}"}</code> is the last one).
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="file-name-folders">Folders</Label>
+        <Input
+          id="file-name-folders"
+          className="font-mono text-sm"
+          value={value.folders}
+          onChange={e => onChange({ ...value, folders: e.target.value })}
+          placeholder="{region}/{store}"
+        />
+        <p className="text-xs text-muted-foreground">Optional. Sorts the files into one folder per value, with a level for each slash. Each folder can also be an archive of its own (see Archives).</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="file-name-collisions">When Names Repeat</Label>
+        <Select value={value.collisions} onValueChange={collisions => onChange({ ...value, collisions: collisions as NameCollision })}>
+          <SelectTrigger id="file-name-collisions"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(NAME_COLLISIONS) as NameCollision[]).map(key => (
+              <SelectItem key={key} value={key}>{NAME_COLLISIONS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <ul className="space-y-0.5 font-mono text-xs text-muted-foreground">
+          {preview.map(name => <li key={name} className="truncate" title={name}>{name}</li>)}
+          {paths.length > preview.length && <li>...</li>}
+        </ul>
+      )}
+      {duplicates > 0 && (
+        <p className={`flex items-start gap-1 text-xs ${value.collisions === "fail" ? "text-destructive" : "text-amber-600"}`}>
+          <TriangleAlert className="h-3.5 w-3.5 shrink-0"/>
+          {duplicates} row(s) come out with a name an earlier row already has, such as {plan?.duplicates[0].name}. {DUPLICATE_OUTCOMES[value.collisions]}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useMemo } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  SHEET_SIZES,
+  planSheet,
+  type CardRotation,
+  type ImpositionOptions,
+  type ImpositionOrder,
+  type SheetOrientation,
+  type SheetSize,
+} from "@/lib/imposition";
+
+type ImpositionSettingsProps = {
+  value: ImpositionOptions;
+  onChange: (value: ImpositionOptions) => void;
+  card: { widthCm: number; heightCm: number };
+};
+
+const toMm = (value: string) => Math.max(0, +value || 0);
+
+export function ImpositionSettings({ value, onChange, card }: ImpositionSettingsProps) {
+  const update = (changes: Partial<ImpositionOptions>) => onChange({ ...value, ...changes });
+
+  const fit = useMemo(() => {
+    if (!value.enabled) return null;
+    try {
+      const plan = planSheet({ widthMm: card.widthCm * 10, heightMm: card.heightCm * 10 }, value);
+      const rotated = plan.rotated ? ", rotated" : "";
+      return { message: `${plan.columns} × ${plan.rows} = ${plan.slots.length} cards per sheet${rotated}`, isError: false };
+    } catch (error) {
+      return { message: error instanceof Error ? error.message : String(error), isError: true };
+    }
+  }, [value, card.widthCm, card.heightCm]);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Checkbox id="impose" checked={value.enabled} onCheckedChange={checked => update({ enabled: checked === true })} />
+        <Label htmlFor="impose">Impose onto press sheets</Label>
+      </div>
+      {value.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sheet-size">Sheet</Label>
+              <Select value={value.sheet} onValueChange={sheet => update({ sheet: sheet as SheetSize })}>
+                <SelectTrigger id="sheet-size"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SHEET_SIZES) as SheetSize[]).map(key => (
+                    <SelectItem key={key} value={key}>{SHEET_SIZES[key].label} ({SHEET_SIZES[key].widthMm} × {SHEET_SIZES[key].heightMm} mm)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sheet-orientation">Orientation</Label>
+              <Select value={value.orientation} onValueChange={orientation => update({ orientation: orientation as SheetOrientation })}>
+                <SelectTrigger id="sheet-orientation"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="portrait">Portrait</SelectItem>
+                  <SelectItem value="landscape">Landscape</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sheet-margin">Margin (mm)</Label>
+              <Input id="sheet-margin" type="number" min={0} step={1} value={value.marginMm} onChange={e => update({ marginMm: toMm(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sheet-gutter">Gutter (mm)</Label>
+              <Input id="sheet-gutter" type="number" min={0} step={0.5} value={value.gutterMm} onChange={e => update({ gutterMm: toMm(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="card-rotation">Rotation</Label>
+              <Select value={value.rotation} onValueChange={rotation => update({ rotation: rotation as CardRotation })}>
+                <SelectTrigger id="card-rotation"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Best fit</SelectItem>
+                  <SelectItem value="none">Upright</SelectItem>
+                  <SelectItem value="rotate">Rotated 90°</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="imposition-order">Order</Label>
+              <Select value={value.order} onValueChange={order => update({ order: order as ImpositionOrder })}>
+                <SelectTrigger id="imposition-order"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="step-and-repeat">Step and repeat</SelectItem>
+                  <SelectItem value="cut-and-stack">Cut and stack</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="cut-marks" checked={value.cutMarks} onCheckedChange={checked => update({ cutMarks: checked === true })} />
+            <Label htmlFor="cut-marks">Cut marks</Label>
+          </div>
+          {fit && <p className={fit.isError ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>{fit.message}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { isAbortError } from "@/lib/archive-sink";
+import {
+  EXISTING_FILES,
+  isDirectoryOutputSupported,
+  pickOutputDirectory,
+  type ExistingFiles,
+  type FolderOutputOptions,
+} from "@/lib/output-directory";
+
+type OutputFolderSettingsProps = {
+  value: FolderOutputOptions;
+  onChange: (value: FolderOutputOptions) => void;
+};
+
+export function OutputFolderSettings({ value, onChange }: OutputFolderSettingsProps) {
+  // Checked after mounting, since the server render has no window.
+  const [supported, setSupported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setSupported(isDirectoryOutputSupported()), []);
+
+  const chooseFolder = async () => {
+    try {
+      onChange({ ...value, handle: await pickOutputDirectory() });
+      setError(null);
+    } catch (pickError) {
+      if (!isAbortError(pickError)) setError(pickError instanceof Error ? pickError.message : String(pickError));
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Checkbox id="folder-output" checked={value.enabled} disabled={!supported} onCheckedChange={checked => onChange({ ...value, enabled: checked === true })} />
+        <Label htmlFor="folder-output">Save into a folder instead of downloading</Label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {supported
+          ? "Writes every file and the manifest straight into a folder on this computer, with subfolders from the folder template. There are no archives to unpack and no downloads for the browser to block."
+          : "Available in Chrome and Edge."}
+      </p>
+      {value.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={chooseFolder}>
+              <FolderOpen className="mr-2 h-4 w-4"/>{value.handle ? "Change Folder" : "Choose Folder"}
+            </Button>
+            <span className="truncate text-sm text-muted-foreground">{value.handle?.name ?? "No folder chosen"}</span>
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="space-y-2">
+            <Label htmlFor="existing-files" className="text-xs">When a File Is Already There</Label>
+            <Select value={value.existingFiles} onValueChange={existingFiles => onChange({ ...value, existingFiles: existingFiles as ExistingFiles })}>
+              <SelectTrigger id="existing-files"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXISTING_FILES) as ExistingFiles[]).map(key => (
+                  <SelectItem key={key} value={key}>{EXISTING_FILES[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Applies to the card files. Sheets and PDFs are always replaced, and the manifest is added to.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CapacityIssue } from "@/lib/qr-capacity";
+import { PAYLOAD_TYPES, guessColumns, type DataRow, type Payload, type PayloadType } from "@/lib/render";
+
+type PayloadSettingsProps = {
+  value: Payload;
+  // Headers and rows of the loaded file; empty until one is loaded.
+  columns: string[];
+  rows: DataRow[];
+  onChange: (value: Payload) => void;
+  issues: CapacityIssue[];
+};
+
+// Select items can't have an empty value.
+const UNMAPPED = "__unmapped__";
+
+export function PayloadSettings({ value, columns, rows, onChange, issues }: PayloadSettingsProps) {
+  const { fields } = PAYLOAD_TYPES[value.type];
+
+  const changeType = (type: PayloadType) => onChange({ type, columns: guessColumns(type, columns, rows) });
+
+  const changeColumn = (key: string, column: string) => {
+    const others = Object.fromEntries(Object.entries(value.columns).filter(([other]) => other !== key));
+    onChange({ ...value, columns: column === UNMAPPED ? others : { ...others, [key]: column } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="payload-type">Code Content</Label>
+        <Select value={value.type} onValueChange={type => changeType(type as PayloadType)}>
+          <SelectTrigger id="payload-type"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PAYLOAD_TYPES) as PayloadType[]).map(type => (
+              <SelectItem key={type} value={type}>{PAYLOAD_TYPES[type].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2 rounded-lg border p-3">
+        <div className="grid grid-cols-2 gap-3">
+          {fields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`payload-${field.key}`} className="text-xs">{field.label}{field.required && " *"}</Label>
+              <Select value={value.columns[field.key] ?? UNMAPPED} onValueChange={column => changeColumn(field.key, column)} disabled={columns.length === 0}>
+                <SelectTrigger id={`payload-${field.key}`} className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>{field.required ? "Choose a column" : "Not used"}</SelectItem>
+                  {columns.map(column => (
+                    <SelectItem key={column} value={column}>{column}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {columns.length === 0
+            ? "Load a file to choose its columns. The preview uses sample values until then."
+            : "Fields marked * must have a value in every row."}
+        </p>
+      </div>
+      {issues.length > 0 && (
+        <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs">
+          <p className="flex items-center gap-1 font-medium"><TriangleAlert className="h-3.5 w-3.5"/>{issues.length} row(s) have invalid content</p>
+          <ul className="mt-1 space-y-0.5 text-muted-foreground">
+            {issues.slice(0, 5).map(issue => (
+              <li key={issue.row}>Row {issue.row + 1}: {issue.message}</li>
+            ))}
+            {issues.length > 5 && <li>and {issues.length - 5} more.</li>}
+          </ul>
+          <p className="mt-1">These rows are skipped and listed in the error report.</p>
+        </div>
+      )}
+    </div>
+  );
+}
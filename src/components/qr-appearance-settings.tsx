@@ -0,0 +1,56 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { QrConfig } from "@/lib/layout";
+
+type QrAppearanceSettingsProps = {
+  value: QrConfig;
+  onChange: (changes: Partial<QrConfig>) => void;
+  warnings: string[];
+};
+
+// Restored when the light colour is switched back from transparent.
+const DEFAULT_LIGHT_COLOR = "#ffffff";
+
+export function QrAppearanceSettings({ value, onChange, warnings }: QrAppearanceSettingsProps) {
+  const isTransparent = value.lightColor === "transparent";
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="qr-dark-color">Dark Modules</Label>
+          <Input id="qr-dark-color" type="color" className="h-9 p-1" value={value.darkColor} onChange={e => onChange({ darkColor: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qr-light-color">Light Modules</Label>
+          <Input id="qr-light-color" type="color" className="h-9 p-1" disabled={isTransparent} value={isTransparent ? DEFAULT_LIGHT_COLOR : value.lightColor} onChange={e => onChange({ lightColor: e.target.value })} />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="qr-transparent" checked={isTransparent} onCheckedChange={checked => onChange({ lightColor: checked === true ? "transparent" : DEFAULT_LIGHT_COLOR })} />
+        <Label htmlFor="qr-transparent">Transparent light modules</Label>
+      </div>
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="qr-quiet-zone">Quiet Zone (modules)</Label>
+          <Input id="qr-quiet-zone" type="number" min={0} max={10} value={value.quietZoneModules} onChange={e => onChange({ quietZoneModules: Math.min(10, Math.max(0, Math.floor(+e.target.value || 0))) })} />
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Checkbox id="qr-knockout" checked={value.knockout} disabled={isTransparent} onCheckedChange={checked => onChange({ knockout: checked === true })} />
+          <Label htmlFor="qr-knockout">Knockout box</Label>
+        </div>
+      </div>
+      {warnings.length > 0 && (
+        <ul className="space-y-1 rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs">
+          {warnings.map(warning => (
+            <li key={warning} className="flex gap-1"><TriangleAlert className="h-3.5 w-3.5 shrink-0 mt-px"/>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import Image from "next/image";
+import { TriangleAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { MIN_LOGO_RATIO, type ErrorCorrectionLevel, type LogoShape, type QrLogo } from "@/lib/render";
+
+type QrLogoSettingsProps = {
+  value: QrLogo | null;
+  imageUrl: string | null;
+  onChange: (value: QrLogo) => void;
+  onImageChange: (file: File | null) => void;
+  // Largest size ratio the chosen error-correction level can recover from.
+  maxRatio: number;
+  level: ErrorCorrectionLevel;
+};
+
+const LOGO_SHAPES: Record<LogoShape, string> = {
+  none: "None (over the code)",
+  square: "Square",
+  rounded: "Rounded",
+  circle: "Circle",
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export function QrLogoSettings({ value, imageUrl, onChange, onImageChange, maxRatio, level }: QrLogoSettingsProps) {
+  const update = (changes: Partial<QrLogo>) => value && onChange({ ...value, ...changes });
+  const hasRoom = maxRatio >= MIN_LOGO_RATIO;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-2">
+        <Label htmlFor="qr-logo-upload">Logo</Label>
+        <div className="flex items-center gap-2">
+          {imageUrl && (
+            <div className="relative h-9 w-9 shrink-0 rounded border">
+              <Image src={imageUrl} alt="Logo" fill className="object-contain p-0.5" />
+            </div>
+          )}
+          <Input
+            id="qr-logo-upload"
+            type="file"
+            accept="image/*"
+            className="cursor-pointer"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImageChange(file);
+              e.target.value = "";
+            }}
+          />
+          {imageUrl && (
+            <Button size="icon" variant="outline" className="shrink-0" aria-label="Remove logo" onClick={() => onImageChange(null)}><X className="h-4 w-4"/></Button>
+          )}
+        </div>
+      </div>
+      {value && (
+        <>
+          <div className="space-y-4">
+            <Label>Logo Size: {percent(value.sizeRatio)} of the code</Label>
+            <Slider value={[Math.min(value.sizeRatio, maxRatio)]} onValueChange={([v]) => update({ sizeRatio: v })} min={MIN_LOGO_RATIO} max={Math.max(maxRatio, MIN_LOGO_RATIO)} step={0.01} disabled={!hasRoom}/>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qr-logo-padding">Padding (modules)</Label>
+              <Input id="qr-logo-padding" type="number" min={0} max={4} step={0.5} value={value.paddingModules} onChange={e => update({ paddingModules: Math.min(4, Math.max(0, +e.target.value || 0)) })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qr-logo-shape">Background</Label>
+              <Select value={value.shape} onValueChange={shape => update({ shape: shape as LogoShape })}>
+                <SelectTrigger id="qr-logo-shape"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LOGO_SHAPES) as LogoShape[]).map(shape => (
+                    <SelectItem key={shape} value={shape}>{LOGO_SHAPES[shape]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {!hasRoom ? (
+            <p className="flex items-center gap-1 text-xs text-destructive"><TriangleAlert className="h-3.5 w-3.5 shrink-0"/>Level {level} leaves no room for a logo. Choose a higher error correction level.</p>
+          ) : value.sizeRatio > maxRatio ? (
+            <p className="flex items-center gap-1 text-xs text-destructive"><TriangleAlert className="h-3.5 w-3.5 shrink-0"/>The logo hides more than level {level} can recover. Reduce it to {percent(maxRatio)} or raise the error correction level.</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">Safe maximum at level {level}: {percent(maxRatio)} of the code.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
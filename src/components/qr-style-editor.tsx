@@ -0,0 +1,116 @@
+"use client";
+
+import { CheckCircle2, Loader2, TriangleAlert } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { STYLE_PRESETS, type FinderShape, type ModuleShape, type QrStyle } from "@/lib/render";
+import type { DecodeStatus } from "@/hooks/use-qr-decode-check";
+
+type QrStyleEditorProps = {
+  value: QrStyle;
+  onChange: (value: QrStyle) => void;
+  decodeStatus: DecodeStatus;
+};
+
+const MODULE_SHAPES: Record<ModuleShape, string> = {
+  square: "Square",
+  rounded: "Rounded",
+  dots: "Dots",
+};
+
+const FINDER_SHAPES: Record<FinderShape, string> = {
+  square: "Square",
+  rounded: "Rounded",
+  circle: "Circle",
+};
+
+const DEFAULT_FINDER_COLOR = "#1d4ed8";
+const DEFAULT_GRADIENT = { toColor: "#1d4ed8", angleDeg: 45 };
+
+const matchingPreset = (style: QrStyle) =>
+  Object.keys(STYLE_PRESETS).find(key => JSON.stringify(STYLE_PRESETS[key].style) === JSON.stringify(style)) ?? "custom";
+
+export function QrStyleEditor({ value, onChange, decodeStatus }: QrStyleEditorProps) {
+  const update = (changes: Partial<QrStyle>) => onChange({ ...value, ...changes });
+  const preset = matchingPreset(value);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-2">
+        <Label htmlFor="qr-style-preset">QR Style</Label>
+        <Select value={preset} onValueChange={key => key in STYLE_PRESETS && onChange(STYLE_PRESETS[key].style)}>
+          <SelectTrigger id="qr-style-preset"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(STYLE_PRESETS).map(([key, { label }]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+            {preset === "custom" && <SelectItem value="custom">Custom</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="qr-module-shape" className="text-xs">Modules</Label>
+          <Select value={value.moduleShape} onValueChange={shape => update({ moduleShape: shape as ModuleShape })}>
+            <SelectTrigger id="qr-module-shape"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODULE_SHAPES) as ModuleShape[]).map(shape => (
+                <SelectItem key={shape} value={shape}>{MODULE_SHAPES[shape]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qr-finder-frame" className="text-xs">Eye Frame</Label>
+          <Select value={value.finderFrame} onValueChange={shape => update({ finderFrame: shape as FinderShape })}>
+            <SelectTrigger id="qr-finder-frame"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FINDER_SHAPES) as FinderShape[]).map(shape => (
+                <SelectItem key={shape} value={shape}>{FINDER_SHAPES[shape]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qr-finder-ball" className="text-xs">Eye Centre</Label>
+          <Select value={value.finderBall} onValueChange={shape => update({ finderBall: shape as FinderShape })}>
+            <SelectTrigger id="qr-finder-ball"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FINDER_SHAPES) as FinderShape[]).map(shape => (
+                <SelectItem key={shape} value={shape}>{FINDER_SHAPES[shape]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="qr-finder-color" checked={value.finderColor !== null} onCheckedChange={checked => update({ finderColor: checked === true ? DEFAULT_FINDER_COLOR : null })} />
+        <Label htmlFor="qr-finder-color">Eye colour</Label>
+        {value.finderColor !== null && (
+          <Input type="color" aria-label="Eye colour" className="ml-auto h-8 w-16 p-1" value={value.finderColor} onChange={e => update({ finderColor: e.target.value })} />
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="qr-gradient" checked={value.gradient !== null} onCheckedChange={checked => update({ gradient: checked === true ? DEFAULT_GRADIENT : null })} />
+        <Label htmlFor="qr-gradient">Gradient to</Label>
+        {value.gradient !== null && (
+          <>
+            <Input type="color" aria-label="Gradient end colour" className="ml-auto h-8 w-16 p-1" value={value.gradient.toColor} onChange={e => update({ gradient: { ...value.gradient!, toColor: e.target.value } })} />
+            <Input type="number" aria-label="Gradient angle" className="h-8 w-20" min={0} max={360} step={15} value={value.gradient.angleDeg} onChange={e => update({ gradient: { ...value.gradient!, angleDeg: (+e.target.value || 0) % 360 } })} />
+          </>
+        )}
+      </div>
+      {decodeStatus === "checking" && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground"><Loader2 className="h-3 w-3 animate-spin"/>Checking that the code still scans...</p>
+      )}
+      {decodeStatus === "ok" && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground"><CheckCircle2 className="h-3.5 w-3.5 text-green-600"/>The styled code decodes correctly.</p>
+      )}
+      {decodeStatus === "failed" && (
+        <p className="flex items-center gap-1 text-xs text-destructive"><TriangleAlert className="h-3.5 w-3.5"/>The styled code could not be decoded. Try a plainer style or more contrast.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Only one page of rows is mounted as slides at a time, so a CSV with
+// thousands of rows doesn't turn into thousands of carousel items.
+const SLIDES_PER_PAGE = 25;
+
+type RowNavigatorProps = {
+  rowCount: number;
+  index: number;
+  onIndexChange: (index: number) => void;
+  renderSlide: (index: number, selected: boolean) => ReactNode;
+};
+
+export function RowNavigator({ rowCount, index, onIndexChange, renderSlide }: RowNavigatorProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [jumpTo, setJumpTo] = useState("");
+  const pageStart = Math.floor(index / SLIDES_PER_PAGE) * SLIDES_PER_PAGE;
+  const pageSize = Math.min(SLIDES_PER_PAGE, rowCount - pageStart);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => onIndexChange(pageStart + api.selectedScrollSnap());
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api, pageStart, onIndexChange]);
+
+  // Keep the carousel on the selected row, jumping without animation when
+  // the row lives on a page that was only just mounted.
+  useEffect(() => {
+    if (!api) return;
+    const sync = () => {
+      const target = index - pageStart;
+      if (api.selectedScrollSnap() !== target) api.scrollTo(target, true);
+    };
+    sync();
+    api.on("reInit", sync);
+    return () => {
+      api.off("reInit", sync);
+    };
+  }, [api, index, pageStart]);
+
+  const goTo = (row: number) => onIndexChange(Math.min(rowCount - 1, Math.max(0, row)));
+
+  const handleJump = () => {
+    const row = parseInt(jumpTo, 10);
+    if (!Number.isNaN(row)) goTo(row - 1);
+    setJumpTo("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} opts={{ watchDrag: pageSize > 1 }}>
+        <CarouselContent>
+          {Array.from({ length: pageSize }, (_, offset) => (
+            <CarouselItem key={pageStart + offset}>
+              {renderSlide(pageStart + offset, pageStart + offset === index)}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+
+      <div className="flex items-center gap-2">
+        <Button size="icon" variant="outline" onClick={() => goTo(index - 1)} disabled={index === 0} aria-label="Previous row">
+          <ChevronLeft className="h-4 w-4"/>
+        </Button>
+        <p className="text-sm text-muted-foreground min-w-28 text-center">Row {index + 1} of {rowCount}</p>
+        <Button size="icon" variant="outline" onClick={() => goTo(index + 1)} disabled={index >= rowCount - 1} aria-label="Next row">
+          <ChevronRight className="h-4 w-4"/>
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Label htmlFor="jump-to-row" className="shrink-0">Jump to row</Label>
+          <Input
+            id="jump-to-row"
+            type="number"
+            className="w-24"
+            min={1}
+            max={rowCount}
+            value={jumpTo}
+            onChange={e => setJumpTo(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && handleJump()}
+            onBlur={handleJump}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
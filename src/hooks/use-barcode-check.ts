@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { checkBarcodes } from "@/lib/barcode-check";
+import type { CapacityIssue } from "@/lib/qr-capacity";
+import type { DataRow, Payload, Symbology } from "@/lib/render";
+
+type BarcodeCheckState = { issues: CapacityIssue[]; isChecking: boolean };
+
+const EMPTY: BarcodeCheckState = { issues: [], isChecking: false };
+
+// Re-checks every row whenever the rows, payload or symbology change. Null
+// symbology (a QR code) skips the check.
+export function useBarcodeCheck(rows: DataRow[], payload: Payload, symbology: Symbology | null): BarcodeCheckState {
+  const [state, setState] = useState<BarcodeCheckState>(EMPTY);
+  const payloadKey = JSON.stringify(payload);
+
+  useEffect(() => {
+    if (rows.length === 0 || !symbology) {
+      setState(EMPTY);
+      return;
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, isChecking: true }));
+    checkBarcodes(rows, JSON.parse(payloadKey), symbology, controller.signal)
+      .then(issues => setState({ issues, isChecking: false }))
+      .catch(error => {
+        if (!controller.signal.aborted) console.error("Barcode check failed:", error);
+      });
+
+    return () => controller.abort();
+  }, [rows, payloadKey, symbology]);
+
+  return state;
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { checkCapacity, type CapacityReport, type QrSizing } from "@/lib/qr-capacity";
+import type { DataRow, Payload } from "@/lib/render";
+
+// The size slider fires on every tick; only check once it has settled.
+const CHECK_DELAY_MS = 300;
+
+type CapacityState = CapacityReport & { isChecking: boolean };
+
+const EMPTY: CapacityState = { issues: [], longest: null, shortest: null, isChecking: false };
+
+// Re-checks every row whenever the rows, payload or code sizing change,
+// keeping the last report until the new one is ready.
+export function useCapacityCheck(rows: DataRow[], payload: Payload, sizing: QrSizing): CapacityState {
+  const [state, setState] = useState<CapacityState>(EMPTY);
+  const payloadKey = JSON.stringify(payload);
+  const { errorCorrectionLevel, sizeCm, quietZoneModules } = sizing;
+
+  useEffect(() => {
+    if (rows.length === 0) {
+      setState(EMPTY);
+      return;
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, isChecking: true }));
+
+    const timer = setTimeout(() => {
+      checkCapacity(rows, JSON.parse(payloadKey), { errorCorrectionLevel, sizeCm, quietZoneModules }, controller.signal)
+        .then(report => setState({ ...report, isChecking: false }))
+        .catch(error => {
+          if (!controller.signal.aborted) console.error("Capacity check failed:", error);
+        });
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [rows, payloadKey, errorCorrectionLevel, sizeCm, quietZoneModules]);
+
+  return state;
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useMemo } from "react";
+import type { CapacityIssue } from "@/lib/qr-capacity";
+import { buildPayload, type DataRow, type Payload } from "@/lib/render";
+
+// Builds the payload of every row and lists the ones with missing or
+// malformed values. Building is cheap next to encoding, so this runs in one
+// go rather than in slices like the capacity check.
+export function usePayloadCheck(rows: DataRow[], payload: Payload): CapacityIssue[] {
+  const payloadKey = JSON.stringify(payload);
+
+  return useMemo(() => {
+    const payload: Payload = JSON.parse(payloadKey);
+    return rows.flatMap((row, index) => {
+      try {
+        buildPayload(payload, row);
+        return [];
+      } catch (error) {
+        return [{ row: index, link: "", message: error instanceof Error ? error.message : String(error) }];
+      }
+    });
+  }, [rows, payloadKey]);
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createRenderPool, isRenderPoolSupported, type RenderPool } from "@/lib/render-pool";
+import type { DataRow, LayoutSpec } from "@/lib/render";
+import type { RasterFormat } from "@/lib/encode";
+
+// Layout changes arrive on every slider tick; wait for them to settle before
+// rendering a full-resolution card.
+const RENDER_DELAY_MS = 150;
+
+type PreviewState = {
+  url: string | null;
+  error: string | null;
+  isRendering: boolean;
+};
+
+// Renders a row through the same worker pipeline as the export, so the
+// preview shows exactly the image that ends up in the archive.
+export function usePreviewRender(
+  background: Blob | null,
+  logo: Blob | null,
+  spec: LayoutSpec,
+  format: RasterFormat,
+  row: DataRow | null,
+): PreviewState {
+  const [state, setState] = useState<PreviewState>({ url: null, error: null, isRendering: false });
+  const poolRef = useRef<{ pool: RenderPool; background: Blob; logo: Blob | null; specKey: string; format: RasterFormat } | null>(null);
+  const specKey = JSON.stringify(spec);
+  const rowKey = JSON.stringify(row);
+
+  useEffect(() => {
+    if (!background || !row || !isRenderPoolSupported()) {
+      setState(prev => ({ ...prev, isRendering: false }));
+      return;
+    }
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, isRendering: true }));
+
+    const timer = setTimeout(async () => {
+      try {
+        let current = poolRef.current;
+        if (
+          !current || current.background !== background || current.logo !== logo
+          || current.specKey !== specKey || current.format !== format
+        ) {
+          current?.pool.terminate();
+          poolRef.current = null;
+          const pool = await createRenderPool({ background, logo }, JSON.parse(specKey), format, 1);
+          if (cancelled) {
+            pool.terminate();
+            return;
+          }
+          current = poolRef.current = { pool, background, logo, specKey, format };
+        }
+
+        const { image } = await current.pool.render(JSON.parse(rowKey));
+        if (cancelled) return;
+        const url = URL.createObjectURL(image);
+        setState(prev => {
+          if (prev.url) URL.revokeObjectURL(prev.url);
+          return { url, error: null, isRendering: false };
+        });
+      } catch (error) {
+        if (cancelled) return;
+        setState(prev => ({ ...prev, error: error instanceof Error ? error.message : String(error), isRendering: false }));
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [background, logo, specKey, format, rowKey]);
+
+  useEffect(() => () => {
+    poolRef.current?.pool.terminate();
+    poolRef.current = null;
+  }, []);
+
+  return state;
+}
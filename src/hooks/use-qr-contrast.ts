@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { resolveLayout, type LayoutSpec } from "@/lib/render";
+import { checkQrContrast, sampleArtwork, type ArtworkSample } from "@/lib/qr-contrast";
+
+// The artwork only needs to be sampled coarsely to judge its tone.
+const SAMPLE_SIZE = 64;
+
+// Samples the background under each code and checks it, together with the
+// code's own colours, for anything that would hurt scanning.
+export function useQrContrast(background: Blob | null, spec: LayoutSpec): string[] {
+  const [samples, setSamples] = useState<(ArtworkSample | null)[]>([]);
+  const specKey = JSON.stringify(spec);
+
+  useEffect(() => {
+    if (!background) {
+      setSamples([]);
+      return;
+    }
+
+    let cancelled = false;
+    createImageBitmap(background)
+      .then(bitmap => {
+        const spec: LayoutSpec = JSON.parse(specKey);
+        const layout = resolveLayout(spec, bitmap);
+        const canvas = new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+        const sampled = layout.elements.map(({ rect }) => {
+          if (!ctx || rect.width <= 0 || rect.height <= 0) return null;
+          const scaleX = SAMPLE_SIZE / rect.width;
+          const scaleY = SAMPLE_SIZE / rect.height;
+          const bg = layout.background;
+          ctx.fillStyle = spec.backgroundColor;
+          ctx.fillRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+          ctx.drawImage(bitmap, (bg.x - rect.x) * scaleX, (bg.y - rect.y) * scaleY, bg.width * scaleX, bg.height * scaleY);
+          return sampleArtwork(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+        });
+        bitmap.close();
+        if (!cancelled) setSamples(sampled);
+      })
+      .catch(error => console.error("Could not sample the background:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [background, specKey]);
+
+  return spec.elements.flatMap((element, index) => checkQrContrast(element, samples[index] ?? null));
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { checkQrDecodes } from "@/lib/qr-decode";
+import type { QrElement } from "@/lib/render";
+
+// Style controls change in quick succession; test once they settle.
+const CHECK_DELAY_MS = 250;
+
+export type DecodeStatus = "checking" | "ok" | "failed" | null;
+
+// Test-renders the code for `text` with the element's current style and
+// logo, and reports whether it still decodes to the same text.
+export function useQrDecodeCheck(element: QrElement | null, text: string | null, logo: Blob | null): DecodeStatus {
+  const [status, setStatus] = useState<DecodeStatus>(null);
+  const elementKey = JSON.stringify(element);
+
+  useEffect(() => {
+    const element: QrElement | null = JSON.parse(elementKey);
+    if (!element || !text) {
+      setStatus(null);
+      return;
+    }
+    let cancelled = false;
+    setStatus("checking");
+    const timer = setTimeout(async () => {
+      const bitmap = element.logo && logo ? await createImageBitmap(logo).catch(() => null) : null;
+      try {
+        const decodes = checkQrDecodes(text, element, bitmap);
+        if (!cancelled) setStatus(decodes ? "ok" : "failed");
+      } catch (error) {
+        console.error("Decode check failed:", error);
+        if (!cancelled) setStatus("failed");
+      } finally {
+        bitmap?.close();
+      }
+    }, CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [elementKey, text, logo]);
+
+  return status;
+}
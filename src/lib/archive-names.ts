@@ -0,0 +1,76 @@
+import { sanitizeFileName } from "@/lib/file-names";
+
+// How an export is split into archives (or PDFs), and what they are called.
+// Names come from a template with these tokens:
+//   {project}     the project name
+//   {timestamp}   when the export was started, as 20250601-1830
+//   {part}        the archive number; {part:000} pads it to three digits
+//   {folder}      the folder the archive holds, with one archive per folder
+
+export type ArchiveSplit = "none" | "size" | "count" | "folder";
+
+export type ArchiveOptions = {
+  split: ArchiveSplit;
+  maxMegabytes: number;
+  maxImages: number;
+  projectName: string;
+  nameTemplate: string;
+};
+
+export const ARCHIVE_SPLITS: Record<ArchiveSplit, string> = {
+  none: "One archive",
+  size: "By size",
+  count: "By number of images",
+  folder: "One archive per folder",
+};
+
+export const DEFAULT_ARCHIVES: ArchiveOptions = {
+  split: "none",
+  maxMegabytes: 500,
+  maxImages: 2000,
+  projectName: "uvify",
+  nameTemplate: "{project}_{timestamp}_part{part}",
+};
+
+export const MIN_ARCHIVE_MEGABYTES = 10;
+
+const TOKEN = /\{([a-z]+)(?::(0+))?\}/g;
+const TOKENS = ["project", "timestamp", "part", "folder"];
+
+// What is wrong with a name template, or null when it is fine.
+export const archiveTemplateError = (template: string) => {
+  if (!template.trim()) return "The archive name template is empty";
+  for (const [, name] of template.matchAll(TOKEN)) {
+    if (!TOKENS.includes(name)) return `Archive names have no {${name}}; use ${TOKENS.map(token => `{${token}}`).join(", ")}`;
+  }
+  if (/[{}]/.test(template.replace(TOKEN, ""))) return "The archive name template has a stray '{' or '}'";
+  return null;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const formatTimestamp = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+export type ArchiveNameContext = {
+  createdAt: number;
+  // 1-based number of the archive within the export.
+  part: number;
+  folder: string;
+};
+
+// The archive's name without its extension. Folder levels are joined with
+// underscores, since an archive name can't hold a path.
+export const renderArchiveName = (options: ArchiveOptions, { createdAt, part, folder }: ArchiveNameContext) => {
+  const values: Record<string, string> = {
+    project: options.projectName.trim(),
+    timestamp: formatTimestamp(createdAt),
+    part: String(part),
+    folder: folder.replace(/\//g, "_"),
+  };
+  const name = options.nameTemplate.replace(TOKEN, (_, token: string, zeros?: string) =>
+    (values[token] ?? "").padStart(zeros?.length ?? 0, "0"));
+  return sanitizeFileName(name) || `uvify_part${part}`;
+};
@@ -0,0 +1,125 @@
+// Destinations that archives can be streamed into without buffering them in
+// memory. Chromium browsers write straight to a file the user picks; other
+// browsers stream through a service worker that turns the bytes into a
+// regular download.
+
+export type ArchiveSink = {
+  name: string;
+  stream: WritableStream<Uint8Array>;
+};
+
+const DOWNLOAD_SW_URL = "/download-sw.js";
+const DOWNLOAD_PATH = "/__uvify_download__";
+const KEEP_ALIVE_MS = 10_000;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const FILE_TYPES: Record<string, FilePickerAcceptType> = {
+  zip: { description: "ZIP archive", accept: { "application/zip": [".zip"] } },
+  pdf: { description: "PDF document", accept: { "application/pdf": [".pdf"] } },
+};
+
+const openFileSink = async (suggestedName: string): Promise<ArchiveSink> => {
+  const extension = suggestedName.split(".").pop() ?? "";
+  const handle = await window.showSaveFilePicker!({
+    suggestedName,
+    types: FILE_TYPES[extension] ? [FILE_TYPES[extension]] : undefined,
+  });
+  return { name: handle.name, stream: await handle.createWritable() };
+};
+
+const getDownloadWorker = async () => {
+  await navigator.serviceWorker.register(DOWNLOAD_SW_URL, { scope: "/" });
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) {
+    throw new Error("The download service worker did not activate");
+  }
+  return registration.active;
+};
+
+const openServiceWorkerSink = async (fileName: string): Promise<ArchiveSink> => {
+  const worker = await getDownloadWorker();
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  // The service worker asks for data whenever its response stream has room,
+  // so at most one chunk is ever in flight between the page and the worker.
+  let credits = 0;
+  let failure: Error | null = null;
+  let waiting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  port.onmessage = (e: MessageEvent<{ type: "pull" | "cancel" }>) => {
+    if (e.data.type === "pull") {
+      credits++;
+      waiting?.resolve();
+    } else {
+      failure = new DOMException("The download was cancelled", "AbortError") as Error;
+      waiting?.reject(failure);
+    }
+    waiting = null;
+  };
+
+  const waitForCredit = () => {
+    if (failure) return Promise.reject(failure);
+    if (credits > 0) return Promise.resolve();
+    return new Promise<void>((resolve, reject) => { waiting = { resolve, reject }; });
+  };
+
+  worker.postMessage({ type: "download", id, fileName }, [channel.port2]);
+
+  const keepAlive = setInterval(() => worker.postMessage({ type: "keep-alive" }), KEEP_ALIVE_MS);
+
+  const iframe = document.createElement("iframe");
+  iframe.hidden = true;
+  iframe.src = `${DOWNLOAD_PATH}/${id}/${encodeURIComponent(fileName)}`;
+  document.body.appendChild(iframe);
+
+  const cleanUp = () => {
+    clearInterval(keepAlive);
+    // Give the browser a moment to hand the finished response to its
+    // download manager before the frame that started it goes away.
+    setTimeout(() => iframe.remove(), KEEP_ALIVE_MS);
+  };
+
+  const stream = new WritableStream<Uint8Array>({
+    async write(chunk) {
+      await waitForCredit();
+      credits--;
+      port.postMessage({ type: "chunk", chunk });
+    },
+    close() {
+      port.postMessage({ type: "close" });
+      cleanUp();
+    },
+    abort(reason) {
+      port.postMessage({ type: "abort", message: reason instanceof Error ? reason.message : String(reason ?? "") });
+      cleanUp();
+    },
+  });
+
+  return { name: fileName, stream };
+};
+
+// Opens a further archive once the save dialog can no longer be shown, such
+// as the second part of a job split into several archives. Browsers may
+// ask once whether the site can download several files.
+export const openDownloadSink = async (fileName: string): Promise<ArchiveSink> => {
+  if ("serviceWorker" in navigator) {
+    return openServiceWorkerSink(fileName);
+  }
+  throw new Error("This browser cannot save more than one archive per export. Choose One archive under Archives.");
+};
+
+// Must be called while the click that started the job still counts as a user
+// gesture, otherwise the browser refuses to show the save dialog.
+export const openArchiveSink = async (suggestedName: string): Promise<ArchiveSink> => {
+  if (typeof window.showSaveFilePicker === "function") {
+    return openFileSink(suggestedName);
+  }
+  if ("serviceWorker" in navigator) {
+    return openServiceWorkerSink(suggestedName);
+  }
+  throw new Error("This browser cannot stream downloads. Please use a recent version of Chrome, Edge, Firefox or Safari.");
+};
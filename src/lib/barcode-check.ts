@@ -0,0 +1,49 @@
+import { buildPayload, encodeBarcode, SYMBOLOGIES, type DataRow, type Payload, type Symbology } from "@/lib/render";
+import type { CapacityIssue } from "@/lib/qr-capacity";
+
+// Time spent checking before handing the main thread back.
+const SLICE_MS = 30;
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Encodes every row to find the ones a symbology can't take, such as
+// letters in an EAN-13 or a GS1 string with a bad check digit. Like the QR
+// capacity check, the work is done in short slices so the page stays
+// responsive on large files.
+export const checkBarcodes = async (
+  rows: DataRow[],
+  payload: Payload,
+  symbology: Symbology,
+  signal: AbortSignal,
+): Promise<CapacityIssue[]> => {
+  const issues: CapacityIssue[] = [];
+  const results = new Map<string, string | null>();
+  let sliceStart = Date.now();
+
+  for (let index = 0; index < rows.length; index++) {
+    if (Date.now() - sliceStart > SLICE_MS) {
+      await nextTask();
+      signal.throwIfAborted();
+      sliceStart = Date.now();
+    }
+
+    // Rows whose payload can't be built are reported by the payload check.
+    let text: string;
+    try {
+      text = buildPayload(payload, rows[index]);
+    } catch {
+      continue;
+    }
+    if (!results.has(text)) {
+      try {
+        encodeBarcode(text, { symbology, humanReadable: false });
+        results.set(text, null);
+      } catch (error) {
+        results.set(text, `Not a valid ${SYMBOLOGIES[symbology].label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const message = results.get(text);
+    if (message) issues.push({ row: index, link: text, message });
+  }
+  return issues;
+};
@@ -0,0 +1,193 @@
+import { buildPayload, resolveLayout, type DataRow, type BarcodeElement, type EncodedElement, type LayoutSpec, type QrElement, type Rect } from "@/lib/render";
+import { clearedBy, qrGeometry } from "@/lib/render/qr";
+import { barcodeGeometry } from "@/lib/render/barcode";
+import { buildQrShapes, gradientLine, isClassicStyle, type PathCommand } from "@/lib/render/qr-shapes";
+import { logoImageRect, logoPlate, logoPlateColor } from "@/lib/render/qr-logo";
+import { cutMarks, type SheetPlan } from "@/lib/imposition";
+import type { RenderAssets } from "@/lib/render-pool";
+
+export type SvgOptions = {
+  // Inline the background as a data URL, or reference a copy stored next to
+  // the SVG files in the archive.
+  embedBackground: boolean;
+};
+
+// A card's artwork, with what each element of the layout encodes.
+export type SvgCard = {
+  artwork: string;
+  elements: EncodedElement[];
+};
+
+export type CardSvg = {
+  // Card artwork for one row, without the enclosing <svg> element. `index`
+  // is the row's, and keeps the card's ids apart from those of the other
+  // cards on a sheet.
+  buildCard: (index: number, row: DataRow) => SvgCard;
+  card: (artwork: string) => Blob;
+  // A press sheet with a card in each slot. Null leaves a slot empty.
+  sheet: (cards: (string | null)[]) => Blob;
+};
+
+const SVG_TYPE = "image/svg+xml";
+const MARK_WIDTH_MM = 0.1;
+
+// Name of the background copy that linked SVGs point at.
+export const svgBackgroundName = (backgroundName: string) => {
+  const extension = backgroundName.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase() ?? "png";
+  return `background.${extension}`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c]!);
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const toDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked, since spreading a whole image into fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || "image/png"};base64,${btoa(binary)}`;
+};
+
+const pathData = (commands: PathCommand[]) => commands.map(command => {
+  if (command[0] === "Z") return "Z";
+  const [op, ...values] = command;
+  return `${op}${values.map(num).join(" ")}`;
+}).join("");
+
+type SvgLogo = { href: string; width: number; height: number };
+
+// Draws the QR outlines in module units, scaled onto the symbol's box. A
+// gradient is defined in the same units, so it follows the symbol exactly.
+// Returns the symbol's version with the markup.
+const qrMarkup = (text: string, element: QrElement, box: Rect, id: string, logoImage: SvgLogo | null) => {
+  const { modules, version, moduleSize, symbol, light, logo } = qrGeometry(text, element, box);
+  const { style } = element;
+  const shapes = buildQrShapes(modules, style, clearedBy(logo));
+  const markup: string[] = [];
+  if (light) {
+    markup.push(`<rect x="${num(light.x)}" y="${num(light.y)}" width="${num(light.width)}" height="${num(light.height)}" fill="${escapeXml(element.lightColor)}"/>`);
+  }
+
+  let fill = escapeXml(element.darkColor);
+  markup.push(`<g transform="translate(${num(symbol.x)} ${num(symbol.y)}) scale(${num(moduleSize)})" fill-rule="evenodd"${isClassicStyle(style) ? ` shape-rendering="crispEdges"` : ""}>`);
+  if (style.gradient) {
+    const { x1, y1, x2, y2 } = gradientLine(modules.size, style.gradient.angleDeg);
+    markup.push(
+      `<defs><linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}">`,
+      `<stop offset="0" stop-color="${fill}"/><stop offset="1" stop-color="${escapeXml(style.gradient.toColor)}"/>`,
+      `</linearGradient></defs>`,
+    );
+    fill = `url(#${id})`;
+  }
+  markup.push(`<path d="${pathData(shapes.modules)}" fill="${fill}"/>`);
+  markup.push(`<path d="${pathData(shapes.finders)}" fill="${style.finderColor ? escapeXml(style.finderColor) : fill}"/>`);
+  if (logo) {
+    const plate = logoPlate(logo);
+    if (plate) markup.push(`<path d="${pathData(plate)}" fill="${escapeXml(logoPlateColor(element.lightColor))}"/>`);
+    const rect = logoImage && logoImageRect(logo, element.logo?.paddingModules ?? 0, logoImage);
+    if (logoImage && rect) {
+      markup.push(`<image x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}" preserveAspectRatio="none" xlink:href="${escapeXml(logoImage.href)}"/>`);
+    }
+  }
+  markup.push("</g>");
+  return { markup: markup.join("\n"), version };
+};
+
+const barcodeMarkup = (text: string, element: BarcodeElement, box: Rect) => {
+  const { shapes, moduleSize, symbol, light } = barcodeGeometry(text, element, box);
+  const markup: string[] = [];
+  if (light) {
+    markup.push(`<rect x="${num(light.x)}" y="${num(light.y)}" width="${num(light.width)}" height="${num(light.height)}" fill="${escapeXml(element.lightColor)}"/>`);
+  }
+  markup.push(
+    `<g transform="translate(${num(symbol.x)} ${num(symbol.y)}) scale(${num(moduleSize)})" fill-rule="evenodd">`,
+    `<path d="${pathData([...shapes.bars, ...shapes.text])}" fill="${escapeXml(element.darkColor)}"/>`,
+    "</g>",
+  );
+  return markup.join("\n");
+};
+
+const svgDocument = (width: string, height: string, viewBox: string, body: string) => new Blob([
+  `<?xml version="1.0" encoding="UTF-8"?>\n`,
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${viewBox}">\n`,
+  body,
+  `\n</svg>\n`,
+], { type: SVG_TYPE });
+
+// Builds vector cards. Coordinates are output pixels, so every element lands
+// exactly where it does in the raster export; the physical size comes from
+// the width and height in centimetres.
+export const createCardSvg = async (
+  spec: LayoutSpec,
+  assets: RenderAssets,
+  backgroundName: string,
+  options: SvgOptions,
+  plan: SheetPlan | null = null,
+  withCutMarks = false,
+): Promise<CardSvg> => {
+  const { background } = assets;
+  const bitmap = await createImageBitmap(background);
+  const layout = resolveLayout(spec, bitmap);
+  bitmap.close();
+
+  // The logo is always inlined: it's small, and one linked file per part is
+  // enough to keep track of.
+  let logoImage: SvgLogo | null = null;
+  if (assets.logo) {
+    const logoBitmap = await createImageBitmap(assets.logo);
+    logoImage = { href: await toDataUrl(assets.logo), width: logoBitmap.width, height: logoBitmap.height };
+    logoBitmap.close();
+  }
+
+  const href = options.embedBackground ? await toDataUrl(background) : svgBackgroundName(backgroundName);
+  const { x, y, width, height } = layout.background;
+  const backgroundMarkup = [
+    `<rect width="${layout.widthPx}" height="${layout.heightPx}" fill="${escapeXml(spec.backgroundColor)}"/>`,
+    `<image x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" preserveAspectRatio="none" xlink:href="${escapeXml(href)}"/>`,
+  ].join("\n");
+  const cardViewBox = `0 0 ${layout.widthPx} ${layout.heightPx}`;
+
+  return {
+    buildCard: (cardIndex, row) => {
+      const drawn = layout.elements.map(({ element, rect }, index) => {
+        const payload = buildPayload(element.payload, row);
+        if (element.type === "barcode") return { markup: barcodeMarkup(payload, element, rect), payload, qrVersion: null };
+        const { markup, version } = qrMarkup(payload, element, rect, `qr-fill-${cardIndex}-${index}`, logoImage);
+        return { markup, payload, qrVersion: version };
+      });
+      return {
+        artwork: [backgroundMarkup, ...drawn.map(({ markup }) => markup)].join("\n"),
+        elements: drawn.map(({ payload, qrVersion }) => ({ payload, qrVersion })),
+      };
+    },
+
+    card: (artwork) => svgDocument(`${spec.widthCm}cm`, `${spec.heightCm}cm`, cardViewBox, artwork),
+
+    sheet: (cards) => {
+      if (!plan) throw new Error("No sheet plan for this export");
+      // Each card is a nested viewport, so it keeps its own clipping and
+      // pixel coordinates; the sheet itself is laid out in millimetres.
+      const placed = cards.flatMap((card, index) => {
+        const slot = plan.slots[index];
+        if (card === null || !slot) return [];
+        const [w, h] = plan.rotated ? [slot.height, slot.width] : [slot.width, slot.height];
+        const transform = plan.rotated
+          ? `translate(${num(slot.x + slot.width)} ${num(slot.y)}) rotate(90)`
+          : `translate(${num(slot.x)} ${num(slot.y)})`;
+        return [`<g transform="${transform}"><svg width="${num(w)}" height="${num(h)}" viewBox="${cardViewBox}" preserveAspectRatio="none">`, card, `</svg></g>`];
+      });
+      const lines = withCutMarks
+        ? cutMarks(plan, 0).map(mark =>
+          `<line x1="${num(mark.x1)}" y1="${num(mark.y1)}" x2="${num(mark.x2)}" y2="${num(mark.y2)}"/>`
+        )
+        : [];
+      const marks = lines.length > 0 ? [`<g stroke="#000" stroke-width="${MARK_WIDTH_MM}">`, ...lines, "</g>"] : [];
+
+      return svgDocument(`${plan.widthMm}mm`, `${plan.heightMm}mm`, `0 0 ${plan.widthMm} ${plan.heightMm}`, [...placed, ...marks].join("\n"));
+    },
+  };
+};
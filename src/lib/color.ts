@@ -0,0 +1,30 @@
+export type Rgb = { r: number; g: number; b: number };
+
+const NAMED_COLORS: Record<string, Rgb> = {
+  white: { r: 255, g: 255, b: 255 },
+  black: { r: 0, g: 0, b: 0 },
+};
+
+// Parses the colours the app produces: hex (#rgb or #rrggbb) and the few
+// names used as defaults. Returns null for anything else, including
+// "transparent".
+export const parseColor = (color: string): Rgb | null => {
+  const named = NAMED_COLORS[color.toLowerCase()];
+  if (named) return named;
+  let hex = color.replace("#", "");
+  if (hex.length === 3) hex = hex.split("").map(c => c + c).join("");
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  const value = parseInt(hex, 16);
+  return { r: (value >> 16) & 0xFF, g: (value >> 8) & 0xFF, b: value & 0xFF };
+};
+
+// WCAG relative luminance, from 0 (black) to 1 (white).
+export const relativeLuminance = ({ r, g, b }: Rgb) => {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+export const contrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
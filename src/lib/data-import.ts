@@ -0,0 +1,164 @@
+import Papa from "papaparse";
+import type { DataRow } from "@/lib/render";
+import { readSpreadsheet, type SheetGrid } from "@/lib/spreadsheet";
+
+// Reads an uploaded data file into the rows the rest of the app works with:
+// one record per row, keyed by trimmed header, every value a trimmed string.
+// Delimited text (comma, semicolon, tab, pipe), JSON arrays, NDJSON and
+// Excel or OpenDocument workbooks all end up in the same shape.
+
+export type DataTable = {
+  // The sheet name for workbooks, the file name otherwise.
+  name: string;
+  headers: string[];
+  rows: DataRow[];
+};
+
+export type ImportedData = {
+  // One table per sheet; text formats give exactly one.
+  tables: DataTable[];
+  // How a text file was read, e.g. "UTF-8, semicolon-separated", so a
+  // wrong guess is easy to spot. Null for workbooks.
+  detected: string | null;
+};
+
+export const DATA_FILE_ACCEPT = ".csv,.tsv,.tab,.txt,.json,.ndjson,.jsonl,.xlsx,.ods";
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ",": "comma-separated",
+  ";": "semicolon-separated",
+  "\t": "tab-separated",
+  "|": "pipe-separated",
+};
+
+const extension = (name: string) => name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+
+// Share of the sampled bytes at even (or odd) offsets that are zero; plain
+// text in UTF-16 has a zero in every other byte.
+const zeroShare = (bytes: Uint8Array, parity: number) => {
+  const length = Math.min(bytes.length, 1024);
+  let zeros = 0;
+  for (let i = parity; i < length; i += 2) if (bytes[i] === 0) zeros++;
+  return length > 1 ? zeros / Math.floor(length / 2) : 0;
+};
+
+// Byte order marks settle it; otherwise the text is UTF-8 if it decodes
+// cleanly, and Windows-1252 (what Excel writes "CSV" as on most European
+// systems) if not.
+const decodeText = (bytes: Uint8Array) => {
+  const decode = (encoding: string, fatal = false) => new TextDecoder(encoding, { fatal }).decode(bytes);
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { text: decode("utf-8"), encoding: "UTF-8" };
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { text: decode("utf-16le"), encoding: "UTF-16" };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { text: decode("utf-16be"), encoding: "UTF-16" };
+  if (zeroShare(bytes, 1) > 0.3) return { text: decode("utf-16le"), encoding: "UTF-16" };
+  if (zeroShare(bytes, 0) > 0.3) return { text: decode("utf-16be"), encoding: "UTF-16" };
+  try {
+    return { text: decode("utf-8", true), encoding: "UTF-8" };
+  } catch {
+    return { text: decode("windows-1252"), encoding: "Windows-1252" };
+  }
+};
+
+const uniqueHeaders = (headers: string[]) => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+};
+
+const isBlank = (row: DataRow) => !Object.values(row).some(Boolean);
+
+// The first row with any text holds the headers. Cells past the last header
+// get a "Column N" header of their own rather than being dropped.
+const tableFromGrid = ({ name, cells }: SheetGrid): DataTable => {
+  const headerRow = cells.findIndex(row => row.some(cell => cell.trim()));
+  if (headerRow === -1) return { name, headers: [], rows: [] };
+  const body = cells.slice(headerRow + 1);
+  const width = cells.slice(headerRow).reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = uniqueHeaders(Array.from({ length: width }, (_, i) => cells[headerRow][i] ?? ""));
+  const rows = body
+    .map(row => Object.fromEntries(headers.map((header, i) => [header, row[i]?.trim() ?? ""])))
+    .filter(row => !isBlank(row));
+  return { name, headers, rows };
+};
+
+const readDelimited = (text: string, name: string, delimiter: string) => {
+  // An empty delimiter has Papa guess it from the first rows.
+  const results = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: "greedy" });
+  return { table: tableFromGrid({ name, cells: results.data }), delimiter: results.meta.delimiter };
+};
+
+// Nested objects become dotted headers ("address.city"); arrays stay JSON.
+const flatten = (value: unknown, prefix: string, out: DataRow) => {
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  } else {
+    out[prefix] = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value).trim();
+  }
+  return out;
+};
+
+const tableFromRecords = (records: unknown[], name: string): DataTable => {
+  const headers = new Set<string>();
+  const flat = records.map((record, index) => {
+    if (record === null || typeof record !== "object" || Array.isArray(record)) {
+      throw new Error(`Record ${index + 1} is not an object; the file must hold one object per row`);
+    }
+    const row = flatten(record, "", {});
+    Object.keys(row).forEach(header => headers.add(header));
+    return row;
+  });
+  const rows = flat
+    .map(row => Object.fromEntries([...headers].map(header => [header, row[header] ?? ""])))
+    .filter(row => !isBlank(row));
+  return { name, headers: [...headers], rows };
+};
+
+// A JSON array of objects, or one object per line (NDJSON). A single object
+// is read as one row.
+const readJson = (text: string, name: string) => {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return { table: tableFromRecords(Array.isArray(parsed) ? parsed : [parsed], name), format: "JSON" };
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+  return { table: tableFromRecords(records, name), format: "NDJSON" };
+};
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+export const readDataFile = async (file: File): Promise<ImportedData> => {
+  const data = await file.arrayBuffer();
+  const bytes = new Uint8Array(data);
+  const type = extension(file.name);
+
+  if (type === "xlsx" || type === "ods" || isZip(bytes)) {
+    const sheets = await readSpreadsheet(data);
+    return { tables: sheets.map(tableFromGrid).filter(table => table.headers.length > 0), detected: null };
+  }
+
+  const { text, encoding } = decodeText(bytes);
+  // The decoder drops any byte order mark, so a JSON file starts with its
+  // opening bracket.
+  const isJson = ["json", "ndjson", "jsonl"].includes(type) || (type === "txt" && /^\s*[[{]/.test(text));
+  if (isJson) {
+    const { table, format } = readJson(text, file.name);
+    return { tables: [table], detected: `${encoding}, ${format}` };
+  }
+
+  const { table, delimiter } = readDelimited(text, file.name, type === "tsv" || type === "tab" ? "\t" : "");
+  return { tables: [table], detected: `${encoding}, ${DELIMITER_NAMES[delimiter] ?? `separated by '${delimiter}'`}` };
+};
@@ -0,0 +1,117 @@
+import { crc32 } from "@/lib/crc32";
+
+// Rewrites the JFIF APP0 segment of a JPEG so it carries the given density.
+// Works on plain ArrayBuffers so it can run inside render workers.
+export const setJpegDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  try {
+    const arrayBuffer = await blob.arrayBuffer();
+    const view = new DataView(arrayBuffer);
+    const segments: ArrayBuffer[] = [];
+    let offset = 2; // Skip SOI
+
+    while (offset < view.byteLength) {
+      const marker = view.getUint16(offset);
+      offset += 2;
+
+      if (marker === 0xFFE0) { // APP0
+        const len = view.getUint16(offset);
+        // Skip this segment, we will replace it.
+        offset += len;
+        continue;
+      }
+
+      if (marker >= 0xFFD0 && marker <= 0xFFD9 || marker === 0xFF01) { // Markers without length
+        continue;
+      }
+
+      if (marker === 0xFFDA) { // SOS
+        segments.push(arrayBuffer.slice(offset - 2));
+        break;
+      }
+
+      const len = view.getUint16(offset);
+      if (len < 2) {
+        // Invalid segment length
+        break;
+      }
+      segments.push(arrayBuffer.slice(offset - 2, offset + len));
+      offset += len;
+    }
+
+    // Create new APP0 segment for JFIF
+    const app0Data = new Uint8Array(16);
+    const app0View = new DataView(app0Data.buffer);
+    app0View.setUint16(0, 0xFFE0); // APP0 marker
+    app0View.setUint16(2, 16); // Length of segment
+    app0View.setUint8(4, 0x4A); // J
+    app0View.setUint8(5, 0x46); // F
+    app0View.setUint8(6, 0x49); // I
+    app0View.setUint8(7, 0x46); // F
+    app0View.setUint8(8, 0x00); // \0
+    app0View.setUint16(9, 0x0101); // Version 1.01
+    app0View.setUint8(11, 1); // Units: 1 for DPI
+    app0View.setUint16(12, dpi); // X density
+    app0View.setUint16(14, dpi); // Y density
+
+    const soi = new Uint8Array([0xFF, 0xD8]); // SOI marker
+    const newBlobParts = [soi, app0Data, ...segments.map(s => new Uint8Array(s))];
+
+    return new Blob(newBlobParts, { type: 'image/jpeg' });
+  } catch (error) {
+    console.error("Error setting DPI:", error);
+    return blob; // Fallback to original blob
+  }
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const chunkType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+
+// Builds a pHYs chunk: pixels per metre on both axes, unit specifier 1 (metre).
+const createPhysChunk = (dpi: number) => {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9); // Data length
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre); // X axis
+  view.setUint32(12, pixelsPerMetre); // Y axis
+  view.setUint8(16, 1); // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17))); // CRC covers type and data
+  return chunk;
+};
+
+// Replaces any pHYs chunk in a PNG with one carrying the given density. The
+// chunk has to come before the first IDAT, so it goes straight after IHDR.
+export const setPngDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  try {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+      throw new Error("Not a PNG file");
+    }
+    const view = new DataView(bytes.buffer);
+    const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= bytes.byteLength) {
+      const length = view.getUint32(offset);
+      const type = chunkType(bytes, offset);
+      const end = offset + 12 + length; // Length, type, data and CRC
+
+      if (type !== "pHYs") {
+        parts.push(bytes.subarray(offset, end));
+      }
+      if (type === "IHDR") {
+        parts.push(createPhysChunk(dpi));
+      }
+      offset = end;
+      if (type === "IEND") break;
+    }
+
+    return new Blob(parts, { type: 'image/png' });
+  } catch (error) {
+    console.error("Error setting DPI:", error);
+    return blob; // Fallback to original blob
+  }
+};
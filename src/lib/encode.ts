@@ -0,0 +1,20 @@
+import { setJpegDpi, setPngDpi } from "@/lib/dpi";
+
+export type RasterFormat = "jpeg" | "png";
+
+export const RASTER_FORMATS: Record<RasterFormat, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: "image/jpeg", extension: "jpg" },
+  png: { mimeType: "image/png", extension: "png" },
+};
+
+const JPEG_QUALITY = 0.9;
+
+// Encodes a finished card and stamps its print density into the file.
+export const encodeCanvas = async (canvas: OffscreenCanvas, format: RasterFormat, dpi: number): Promise<Blob> => {
+  if (format === "png") {
+    const blob = await canvas.convertToBlob({ type: RASTER_FORMATS.png.mimeType });
+    return setPngDpi(blob, dpi);
+  }
+  const blob = await canvas.convertToBlob({ type: RASTER_FORMATS.jpeg.mimeType, quality: JPEG_QUALITY });
+  return setJpegDpi(blob, dpi);
+};
@@ -0,0 +1,15 @@
+import Papa from "papaparse";
+import type { RowFailure } from "@/lib/job-store";
+
+export const buildErrorReport = (failures: RowFailure[]) => {
+  const csv = Papa.unparse(
+    failures.map(failure => ({
+      row: failure.row + 1,
+      payload: failure.link,
+      error: failure.error,
+      attempts: failure.attempts,
+    })),
+    { columns: ["row", "payload", "error", "attempts"] }
+  );
+  return new Blob([csv], { type: "text/csv;charset=utf-8" });
+};
@@ -0,0 +1,582 @@
+import { toLayoutSpec } from "@/lib/layout";
+import { buildPayload, type DataRow, type EncodedElement } from "@/lib/render";
+import { filePath, planFileNames, type FileNamePlan } from "@/lib/file-names";
+import { renderArchiveName } from "@/lib/archive-names";
+import { createRenderPool, getPoolSize, type CardFormat, type RenderPool, type RenderedCard } from "@/lib/render-pool";
+import { isVerificationError } from "@/lib/qr-decode";
+import { createZipWriter, type ZipWriter } from "@/lib/zip-writer";
+import { MANIFEST_NAMES, createManifest, parseManifest, sha256, type Manifest, type ManifestFile } from "@/lib/manifest";
+import { createCardPdf, type PdfCard } from "@/lib/pdf/card-pdf";
+import { OUTPUT_FORMATS, isRasterFormat } from "@/lib/output-format";
+import { planSheet, sheetFileName, slotOrder, type SheetPlan } from "@/lib/imposition";
+import { createSheetImageWriter } from "@/lib/sheet-image";
+import { RASTER_FORMATS } from "@/lib/encode";
+import { createCardSvg, svgBackgroundName, type SvgCard } from "@/lib/card-svg";
+import type { ArchiveSink } from "@/lib/archive-sink";
+import { createDirectoryWriter, type DirectoryWriter } from "@/lib/output-directory";
+import { saveProgress, type ExportJob, type JobProgress, type RowFailure, type SkippedRow } from "@/lib/job-store";
+
+export type JobControl = {
+  pauseRequested: boolean;
+  cancelRequested: boolean;
+};
+
+export type JobOutcome = "completed" | "paused" | "cancelled";
+
+type RowResult<T> =
+  | { status: "success"; row: number; data: DataRow; output: T }
+  | ({ status: "failed" } & RowFailure)
+  | ({ status: "skipped" } & SkippedRow);
+
+// Per-row file names, for formats that write one file per card. Null for
+// PDFs and imposed sheets, whose files are named by page or sheet.
+export const jobFileNames = (job: ExportJob) => {
+  const { fileExtension } = OUTPUT_FORMATS[job.format];
+  if (!fileExtension || job.imposition.enabled) return null;
+  return planFileNames(job.links, job.payload, job.fileNames, fileExtension);
+};
+
+// One open output part. `render` runs concurrently for a batch of rows, then
+// `write` or `skip` is called for each slot of the batch in order.
+type PartWriter<T> = {
+  batchSize: number;
+  render(row: number, data: DataRow): Promise<T>;
+  write(row: number, data: DataRow, output: T): Promise<void>;
+  // Whether the row's file is already in the output folder and is to be
+  // kept, so the row needn't be rendered at all.
+  keeps?(row: number): Promise<boolean>;
+  // A slot with no output: a failed row, or a blank spot on a sheet.
+  skip(): Promise<void>;
+  close(): Promise<void>;
+  abort(reason?: unknown): Promise<void>;
+  dispose(): void;
+};
+
+// Vector pages are cheap to build on the main thread, so a PDF or SVG batch
+// only needs to be big enough to amortise the checkpoint writes.
+const PDF_BATCH_SIZE = 16;
+
+const jobSheetPlan = (job: ExportJob): SheetPlan | null =>
+  job.imposition.enabled
+    ? planSheet({ widthMm: job.bgDimensions.widthCm * 10, heightMm: job.bgDimensions.heightCm * 10 }, job.imposition)
+    : null;
+
+// Archive splits don't apply when files are written straight into a folder.
+const archiveSplit = (job: ExportJob) => (job.directory ? "none" : job.archives.split);
+
+const folderArchives = (job: ExportJob, names: FileNamePlan | null) =>
+  !!names && archiveSplit(job) === "folder" && !!job.fileNames.folders.trim();
+
+// The rows of a job in the order they are written out. Without imposition
+// this is every row once; on sheets it can hold blank slots (null). With an
+// archive per folder, each folder's rows are brought together, in the order
+// the folders first appear.
+const orderSlots = (job: ExportJob, names: FileNamePlan | null): (number | null)[] => {
+  const plan = jobSheetPlan(job);
+  if (plan) return slotOrder(job.links.length, plan.slots.length, job.imposition.order);
+  if (!names || !folderArchives(job, names)) return job.links.map((_, row) => row);
+  const groups = new Map<string, number[]>();
+  names.folders.forEach((folder, row) => {
+    const group = groups.get(folder);
+    if (group) group.push(row);
+    else groups.set(folder, [row]);
+  });
+  return [...groups.values()].flat();
+};
+
+export const jobSlots = (job: ExportJob) => orderSlots(job, jobFileNames(job));
+
+// The slot after the last one that goes into the same archive as `slot`:
+// the end of its folder with an archive per folder, `maxImages` further on
+// (in whole sheets) when split by count, the end of the job otherwise. A
+// split by size is decided while the part is written.
+const partEnd = (job: ExportJob, slots: (number | null)[], names: FileNamePlan | null, slot: number) => {
+  if (archiveSplit(job) === "count") {
+    const perSheet = jobSheetPlan(job)?.slots.length ?? 1;
+    const perPart = Math.max(perSheet, Math.floor(job.archives.maxImages / perSheet) * perSheet);
+    return Math.min(slots.length, slot + perPart);
+  }
+  if (!names || !folderArchives(job, names)) return slots.length;
+  const folder = names.folders[slots[slot]!];
+  let end = slot;
+  while (end < slots.length && names.folders[slots[end]!] === folder) end++;
+  return end;
+};
+
+// The name of the part that starts at `progress.nextRow`, from the archive
+// name template. A name an earlier part already has, as when a folder is
+// interrupted by a pause, gets a number added.
+export const partName = (job: ExportJob, progress: JobProgress) => {
+  const extension = OUTPUT_FORMATS[job.format].partExtension;
+  const names = jobFileNames(job);
+  const slots = orderSlots(job, names);
+  const row = slots[Math.min(progress.nextRow, slots.length - 1)];
+  const folder = names && folderArchives(job, names) && row !== undefined && row !== null ? names.folders[row] : "";
+  const base = renderArchiveName(job.archives, { createdAt: job.createdAt, part: progress.finishedParts.length + 1, folder });
+
+  const taken = new Set(progress.finishedParts.map(part => part.name.toLowerCase()));
+  let name = `${base}.${extension}`;
+  for (let count = 2; taken.has(name.toLowerCase()); count++) name = `${base}_${count}.${extension}`;
+  return name;
+};
+
+// A rendered card with the row it came from, held until its sheet or page
+// is written and it can be listed in the manifest.
+type Placed<T> = { row: number; data: DataRow; output: T };
+
+// Lists the cards of a finished sheet or page in the manifest, with their
+// slot when they are imposed.
+const listCards = (manifest: Manifest, cards: (Placed<{ elements: EncodedElement[] }> | null)[], file: Omit<ManifestFile, "position">, imposed: boolean) => {
+  cards.forEach((card, index) => {
+    if (card) manifest.add(card.row, card.data, { ...file, position: imposed ? index + 1 : null }, card.output.elements);
+  });
+};
+
+// Card files are the size of the card; imposed files the size of the sheet.
+const cardSize = (job: ExportJob) => ({ widthCm: job.bgDimensions.widthCm, heightCm: job.bgDimensions.heightCm });
+const sheetSize = (plan: SheetPlan) => ({ widthCm: plan.widthMm / 10, heightCm: plan.heightMm / 10 });
+
+// Where the files of a part go: into a ZIP streamed to the part's sink, or
+// straight into the output folder.
+type FileTarget = {
+  addFile: (name: string, data: Blob) => Promise<void>;
+  // Whether a card file already in the folder is to be kept as it is.
+  keeps: (name: string) => Promise<boolean>;
+  // Adds the part's manifest, except in a folder, whose manifest covers
+  // every part and is written once each part is done.
+  close: (manifest: Manifest) => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+};
+
+const zipTarget = (zip: ZipWriter): FileTarget => ({
+  addFile: zip.addFile,
+  keeps: async () => false,
+  close: async manifest => {
+    for (const { name, data } of manifest.files()) await zip.addFile(name, data);
+    await zip.close();
+  },
+  abort: zip.abort,
+});
+
+const directoryTarget = (job: ExportJob, directory: DirectoryWriter): FileTarget => ({
+  addFile: directory.addFile,
+  keeps: async name => job.directory?.existingFiles === "skip" && directory.exists(name),
+  close: async () => {},
+  // Files already written stay, like finished archives do.
+  abort: async () => {},
+});
+
+const openFiles = (job: ExportJob, sink: ArchiveSink | null, directory: DirectoryWriter | null) => {
+  if (directory) return directoryTarget(job, directory);
+  if (!sink) throw new Error("No archive to write the part to");
+  return zipTarget(createZipWriter(sink.stream));
+};
+
+// Collects cards until a sheet is full. Whatever is left when the part
+// closes goes out as a partly filled sheet.
+const createSheetBuffer = <T>(perSheet: number, writeSheet: (cards: (T | null)[]) => Promise<void>) => {
+  let cards: (T | null)[] = [];
+  const flush = async () => {
+    if (cards.length === 0) return;
+    const sheet = cards;
+    cards = [];
+    await writeSheet(sheet);
+  };
+  return {
+    add: async (card: T | null) => {
+      cards.push(card);
+      if (cards.length === perSheet) await flush();
+    },
+    flush,
+  };
+};
+
+const openRasterPart = async (job: ExportJob, files: FileTarget, firstSlot: number, names: (string | null)[], manifest: Manifest): Promise<PartWriter<RenderedCard<Blob>> | PartWriter<RenderedCard<ImageBitmap>>> => {
+  const { format } = job;
+  if (!isRasterFormat(format)) throw new Error(`${format} is not an image format`);
+
+  const spec = toLayoutSpec(job.bgDimensions, job.qrConfig, job.payload);
+  const openPool = async <F extends CardFormat>(cardFormat: F) => {
+    try {
+      return await createRenderPool({ background: job.background, logo: job.logo }, spec, cardFormat, getPoolSize(), job.verify);
+    } catch (error) {
+      await files.abort(error).catch(() => {});
+      throw error;
+    }
+  };
+
+  // Keep every worker busy while one batch is being written, without
+  // letting thousands of finished cards pile up ahead of the archive.
+  const batchSize = (pool: RenderPool<unknown>) => pool.size * 2;
+  const plan = jobSheetPlan(job);
+  if (!plan) {
+    const pool = await openPool(format);
+    return {
+      batchSize: batchSize(pool),
+      render: (_row, data) => pool.render(data),
+      write: async (row, data, card) => {
+        await files.addFile(names[row]!, card.image);
+        manifest.add(row, data, { name: names[row]!, page: null, position: null, ...cardSize(job), sha256: await sha256(card.image) }, card.elements);
+      },
+      keeps: row => files.keeps(names[row]!),
+      skip: async () => {},
+      close: () => files.close(manifest),
+      abort: reason => files.abort(reason),
+      dispose: () => pool.terminate(),
+    } satisfies PartWriter<RenderedCard<Blob>>;
+  }
+
+  // Cards for a sheet come back unencoded, so the sheet is encoded once
+  // rather than being built from cards that already went through JPEG.
+  const pool = await openPool("bitmap");
+  const perSheet = plan.slots.length;
+  const composeSheet = createSheetImageWriter(plan, spec.dpi, format, job.imposition.cutMarks);
+  let sheetIndex = Math.floor(firstSlot / perSheet);
+  const sheets = createSheetBuffer<Placed<RenderedCard<ImageBitmap>>>(perSheet, async cards => {
+    const name = sheetFileName(sheetIndex++, RASTER_FORMATS[format].extension);
+    const sheet = await composeSheet(cards.map(card => card?.output.image ?? null));
+    await files.addFile(name, sheet);
+    listCards(manifest, cards, { name, page: null, ...sheetSize(plan), sha256: await sha256(sheet) }, true);
+  });
+
+  return {
+    // Whole sheets per batch, so a pause never splits one across two parts.
+    batchSize: Math.ceil(batchSize(pool) / perSheet) * perSheet,
+    render: (_row, data) => pool.render(data),
+    write: (row, data, output) => sheets.add({ row, data, output }),
+    skip: () => sheets.add(null),
+    close: async () => {
+      await sheets.flush();
+      await files.close(manifest);
+    },
+    abort: reason => files.abort(reason),
+    dispose: () => pool.terminate(),
+  } satisfies PartWriter<RenderedCard<ImageBitmap>>;
+};
+
+// A PDF has no archive to hold the manifest, so it goes into the PDF as an
+// attachment.
+const openPdfPart = async (job: ExportJob, sink: ArchiveSink, manifest: Manifest): Promise<PartWriter<PdfCard>> => {
+  const plan = jobSheetPlan(job);
+  let pdf;
+  try {
+    const sheet = plan && { plan, cutMarks: job.imposition.cutMarks };
+    pdf = await createCardPdf(sink.stream, toLayoutSpec(job.bgDimensions, job.qrConfig, job.payload), { background: job.background, logo: job.logo }, job.pdf, sheet);
+  } catch (error) {
+    if (!sink.stream.locked) await sink.stream.abort(error).catch(() => {});
+    throw error;
+  }
+
+  const perSheet = plan ? plan.slots.length : 1;
+  const size = plan ? sheetSize(plan) : cardSize(job);
+  let page = 0;
+  const pages = createSheetBuffer<Placed<PdfCard>>(perSheet, async cards => {
+    const content = await pdf.addPage(cards.map(card => card?.output.content ?? null));
+    listCards(manifest, cards, { name: sink.name, page: ++page, ...size, sha256: await sha256(content) }, !!plan);
+  });
+
+  return {
+    batchSize: Math.ceil(PDF_BATCH_SIZE / perSheet) * perSheet,
+    render: async (_row, data) => pdf.buildCard(data),
+    write: (row, data, output) => pages.add({ row, data, output }),
+    // Single-card pages have no slot to leave empty.
+    skip: () => plan ? pages.add(null) : Promise.resolve(),
+    close: async () => {
+      await pages.flush();
+      await pdf.close(manifest.files());
+    },
+    abort: pdf.abort,
+    dispose: () => {},
+  };
+};
+
+// SVG markup is plain text built on the main thread, like PDF pages, and is
+// stored in a ZIP like the raster images.
+const openSvgPart = async (job: ExportJob, files: FileTarget, firstSlot: number, names: (string | null)[], manifest: Manifest): Promise<PartWriter<SvgCard>> => {
+  const plan = jobSheetPlan(job);
+  const background = svgBackgroundName(job.backgroundName);
+  let svg;
+  try {
+    const assets = { background: job.background, logo: job.logo };
+    svg = await createCardSvg(toLayoutSpec(job.bgDimensions, job.qrConfig, job.payload), assets, job.backgroundName, job.svg, plan, job.imposition.cutMarks);
+    // Linked SVGs need their background in every part, since parts are
+    // downloaded and unpacked separately.
+    if (plan && !job.svg.embedBackground) await files.addFile(background, job.background);
+  } catch (error) {
+    await files.abort(error).catch(() => {});
+    throw error;
+  }
+
+  if (!plan) {
+    // The link to the background is relative, so each folder of cards
+    // needs its own copy.
+    const linkedFolders = new Set<string>();
+    return {
+      batchSize: PDF_BATCH_SIZE,
+      render: async (row, data) => svg.buildCard(row, data),
+      write: async (row, data, card) => {
+        const name = names[row]!;
+        const folder = name.slice(0, Math.max(name.lastIndexOf("/"), 0));
+        if (!job.svg.embedBackground && !linkedFolders.has(folder)) {
+          linkedFolders.add(folder);
+          await files.addFile(filePath(folder, background), job.background);
+        }
+        const file = svg.card(card.artwork);
+        await files.addFile(name, file);
+        manifest.add(row, data, { name, page: null, position: null, ...cardSize(job), sha256: await sha256(file) }, card.elements);
+      },
+      keeps: row => files.keeps(names[row]!),
+      skip: async () => {},
+      close: () => files.close(manifest),
+      abort: reason => files.abort(reason),
+      dispose: () => {},
+    };
+  }
+
+  const perSheet = plan.slots.length;
+  let sheetIndex = Math.floor(firstSlot / perSheet);
+  const sheets = createSheetBuffer<Placed<SvgCard>>(perSheet, async cards => {
+    const name = sheetFileName(sheetIndex++, "svg");
+    const sheet = svg.sheet(cards.map(card => card?.output.artwork ?? null));
+    await files.addFile(name, sheet);
+    listCards(manifest, cards, { name, page: null, ...sheetSize(plan), sha256: await sha256(sheet) }, true);
+  });
+
+  return {
+    batchSize: Math.ceil(PDF_BATCH_SIZE / perSheet) * perSheet,
+    render: async (row, data) => svg.buildCard(row, data),
+    write: (row, data, output) => sheets.add({ row, data, output }),
+    skip: () => sheets.add(null),
+    close: async () => {
+      await sheets.flush();
+      await files.close(manifest);
+    },
+    abort: reason => files.abort(reason),
+    dispose: () => {},
+  };
+};
+
+// The encoded text a failed row is listed with, or nothing when the row's
+// payload couldn't be built in the first place.
+const reportedText = (job: ExportJob, data: DataRow) => {
+  try {
+    return buildPayload(job.payload, data);
+  } catch {
+    return "";
+  }
+};
+
+// A PDF is always written to a sink, also in a folder; the other formats
+// need one unless their files go straight into the folder.
+const openPart = (job: ExportJob, sink: ArchiveSink | null, directory: DirectoryWriter | null, firstSlot: number, names: (string | null)[], manifest: Manifest): Promise<PartWriter<unknown>> => {
+  if (job.format === "pdf") {
+    if (!sink) throw new Error("No file to write the PDF to");
+    return openPdfPart(job, sink, manifest);
+  }
+  const files = openFiles(job, sink, directory);
+  if (job.format === "svg") return openSvgPart(job, files, firstSlot, names, manifest);
+  return openRasterPart(job, files, firstSlot, names, manifest);
+};
+
+// Adds a finished part's rows to the manifest at the top of the folder.
+const updateFolderManifest = async (directory: DirectoryWriter, manifest: Manifest) => {
+  const earlier = parseManifest(await directory.readText(MANIFEST_NAMES.json));
+  for (const { name, data } of manifest.files(earlier)) await directory.addFile(name, data);
+};
+
+type JobContext = {
+  slots: (number | null)[];
+  names: FileNamePlan | null;
+  // Name of each row's entry in its archive (or path in the folder); null
+  // for skipped duplicates.
+  entries: (string | null)[];
+  // Set when the job writes into a folder.
+  directory: DirectoryWriter | null;
+};
+
+// Passes bytes through to a sink's stream, keeping count of them.
+const countBytes = (sink: ArchiveSink) => {
+  const writer = sink.stream.getWriter();
+  let bytes = 0;
+  const stream = new WritableStream<Uint8Array>({
+    async write(chunk) {
+      await writer.ready;
+      await writer.write(chunk);
+      bytes += chunk.byteLength;
+    },
+    close: () => writer.close(),
+    abort: reason => writer.abort(reason),
+  });
+  return { sink: { name: sink.name, stream }, bytes: () => bytes };
+};
+
+// Room kept per entry for the archive's central directory, which is only
+// written when the part closes.
+const DIRECTORY_BYTES_PER_ENTRY = 300;
+
+// Renders slots from `progress.nextRow` up to `end` into one output part.
+// The part is closed when it reaches `end`, when the next batch could take
+// it past the size limit, or when the job is paused. The checkpoint only
+// moves past slots once the part holding them has been closed. `sink` is
+// null when card files are written straight into the folder.
+const runPart = async (
+  job: ExportJob,
+  { slots, names, entries, directory }: JobContext,
+  progress: JobProgress,
+  end: number,
+  sink: ArchiveSink | null,
+  control: JobControl,
+  onProgress: (progress: JobProgress) => void,
+): Promise<{ outcome: JobOutcome; progress: JobProgress }> => {
+  const firstSlot = progress.nextRow;
+  const counted = sink && countBytes(sink);
+  const manifest = createManifest(toLayoutSpec(job.bgDimensions, job.qrConfig, job.payload), Object.keys(job.links[0] ?? {}));
+  const part = await openPart(job, counted?.sink ?? null, directory, firstSlot, entries, manifest);
+  const bytes = () => counted?.bytes() ?? 0;
+  const maxBytes = archiveSplit(job) === "size" ? job.archives.maxMegabytes * 1024 * 1024 : Infinity;
+  // The most a batch has added so far, as the estimate for the next one.
+  let largestBatch = 0;
+  let isFull = false;
+
+  const { links } = job;
+  let slot = firstSlot;
+  let imageCount = 0;
+  // Failures and skips recorded past the checkpoint belong to a part that
+  // never got closed; those rows are about to be rendered again.
+  const pending = new Set(slots.slice(firstSlot));
+  const failures = progress.failures.filter(failure => !pending.has(failure.row));
+  const skipped = progress.skipped.filter(skip => !pending.has(skip.row));
+
+  const renderRow = async (row: number, data: DataRow): Promise<RowResult<unknown>> => {
+    const link = reportedText(job, data);
+    // Rows skipped as duplicates are reported without being rendered.
+    if (names && entries[row] === null) {
+      const taken = names.duplicates.find(duplicate => duplicate.row === row)?.name;
+      return { status: "skipped", row, link, reason: "name", detail: `An earlier row already has the file name ${taken}` };
+    }
+    if (await part.keeps?.(row)) {
+      return { status: "skipped", row, link, reason: "exists", detail: `${entries[row]} is already in the folder` };
+    }
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= job.retries + 1; attempt++) {
+      try {
+        return { status: "success", row, data, output: await part.render(row, data) };
+      } catch (error) {
+        // A retry would render the same unreadable code again.
+        if (isVerificationError(error)) {
+          return { status: "failed", row, link, kind: "verify", error: (error as Error).message, attempts: attempt };
+        }
+        lastError = error;
+      }
+    }
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    return { status: "failed", row, link, kind: "render", error: message, attempts: job.retries + 1 };
+  };
+
+  try {
+    while (slot < end) {
+      if (control.cancelRequested) {
+        await part.abort(new DOMException("Export cancelled", "AbortError"));
+        return { outcome: "cancelled", progress };
+      }
+      if (control.pauseRequested) break;
+      // The directory and the manifest files are only written at the end.
+      const overhead = (imageCount + part.batchSize + 2) * DIRECTORY_BYTES_PER_ENTRY + manifest.estimatedBytes;
+      if (slot > firstSlot && bytes() + largestBatch + overhead > maxBytes) {
+        isFull = true;
+        break;
+      }
+
+      const batchStart = bytes();
+      const batch = slots.slice(slot, Math.min(slot + part.batchSize, end));
+      const results = await Promise.all(batch.map(row => row === null ? null : renderRow(row, links[row])));
+
+      // Stream each result into the part in slot order
+      for (const result of results) {
+        if (result?.status !== "success") {
+          if (result?.status === "failed") failures.push({ row: result.row, link: result.link, kind: result.kind, error: result.error, attempts: result.attempts });
+          if (result?.status === "skipped") skipped.push({ row: result.row, link: result.link, reason: result.reason, detail: result.detail });
+          await part.skip();
+          continue;
+        }
+        await part.write(result.row, result.data, result.output);
+        imageCount++;
+      }
+
+      slot += batch.length;
+      largestBatch = Math.max(largestBatch, bytes() - batchStart);
+      const running = { ...progress, currentRow: slot, failures, skipped };
+      onProgress(running);
+      await saveProgress(running);
+    }
+
+    await part.close();
+    if (directory) await updateFolderManifest(directory, manifest);
+  } catch (error) {
+    await part.abort(error).catch(() => {});
+    throw error;
+  } finally {
+    part.dispose();
+  }
+
+  const finished: JobProgress = {
+    nextRow: slot,
+    currentRow: slot,
+    finishedParts: [...progress.finishedParts, { name: sink?.name ?? directory!.name, firstRow: firstSlot, rowCount: slot - firstSlot, imageCount }],
+    failures,
+    skipped,
+  };
+  await saveProgress(finished);
+  onProgress(finished);
+
+  return { outcome: slot < end && !isFull ? "paused" : "completed", progress: finished };
+};
+
+// Runs the job from `progress.nextRow` to the end, or until it is paused or
+// cancelled. The first part goes to `sink`, which the caller opens while
+// the user's click still allows a save dialog; any further parts of a split
+// export are opened with `openNextSink`. A job that writes into a folder
+// opens its files there itself, and is passed no sink.
+export const runExportJob = async (
+  job: ExportJob,
+  progress: JobProgress,
+  sink: ArchiveSink | null,
+  openNextSink: (name: string) => Promise<ArchiveSink>,
+  control: JobControl,
+  onProgress: (progress: JobProgress) => void,
+): Promise<{ outcome: JobOutcome; progress: JobProgress }> => {
+  const names = jobFileNames(job);
+  if (names && job.fileNames.collisions === "fail" && names.duplicates.length > 0) {
+    const [{ row, name }] = names.duplicates;
+    throw new Error(`Row ${row + 1} has the same file name as an earlier row (${name})`);
+  }
+  const slots = orderSlots(job, names);
+  // Folders become directories inside the archive (or the output folder),
+  // unless each is an archive of its own.
+  const perFolder = folderArchives(job, names);
+  const entries = names
+    ? names.names.map((name, row) => name && (perFolder ? name : filePath(names.folders[row], name)))
+    : [];
+  const directory = job.directory ? createDirectoryWriter(job.directory.handle) : null;
+  const context = { slots, names, entries, directory };
+
+  // In a folder, only a PDF is a file of its own; card files are written
+  // one by one.
+  const nextSink = async (name: string) => {
+    if (!directory) return openNextSink(name);
+    return job.format === "pdf" ? { name, stream: await directory.openFile(name) } : null;
+  };
+
+  let current = progress;
+  let partSink = sink ?? await nextSink(partName(job, current));
+  for (;;) {
+    const end = partEnd(job, slots, names, current.nextRow);
+    const result = await runPart(job, context, current, end, partSink, control, onProgress);
+    if (result.outcome !== "completed" || result.progress.nextRow >= slots.length) return result;
+    current = result.progress;
+    // Stop between archives rather than open one only to close it empty.
+    if (control.cancelRequested) return { outcome: "cancelled", progress: current };
+    if (control.pauseRequested) return { outcome: "paused", progress: current };
+    partSink = await nextSink(partName(job, current));
+  }
+};
@@ -0,0 +1,221 @@
+import { buildPayload, type DataRow, type Payload } from "@/lib/render";
+
+// Output file names are built from a template such as
+// "{col:customer}_{row:0000}_{param:id}". The tokens are:
+//   {row}        the 1-based row number; {row:0000} pads it to four digits
+//   {col:name}   the value of a column; {name} works too for any column not
+//                called row, col or param
+//   {param:id}   a query parameter of the encoded link; {param} is the last one
+// Names that come out empty fall back to qr_image_0001 and so on, like the
+// names from before templates. A second template, such as "{region}/{store}",
+// sorts the files into folders, one level per slash.
+
+export type NameCollision = "suffix" | "skip" | "fail";
+
+export type FileNameOptions = {
+  template: string;
+  // Folder path template; empty to put every file at the top level.
+  folders: string;
+  // What happens when two rows come out with the same path.
+  collisions: NameCollision;
+};
+
+export const NAME_COLLISIONS: Record<NameCollision, string> = {
+  suffix: "Add a number (_2, _3, ...)",
+  skip: "Skip the later rows",
+  fail: "Stop before exporting",
+};
+
+export const DEFAULT_FILE_NAMES: FileNameOptions = { template: "{param}", folders: "", collisions: "suffix" };
+
+type TemplatePart =
+  | { kind: "text"; text: string }
+  | { kind: "row"; width: number }
+  | { kind: "col"; name: string }
+  | { kind: "param"; name: string | null };
+
+export type NameTemplate = TemplatePart[];
+
+export type NameContext = {
+  row: DataRow;
+  index: number;
+  // The text encoded in the row's code, for {param}.
+  text: string;
+};
+
+const parseToken = (token: string): TemplatePart => {
+  const colon = token.indexOf(":");
+  const name = (colon === -1 ? token : token.slice(0, colon)).trim();
+  const arg = colon === -1 ? null : token.slice(colon + 1).trim();
+  if (name === "row") {
+    if (arg !== null && !/^0+$/.test(arg)) throw new Error(`{row:${arg}} must be written with zeros, such as {row:0000}`);
+    return { kind: "row", width: arg?.length ?? 0 };
+  }
+  if (name === "param") return { kind: "param", name: arg || null };
+  if (name === "col") {
+    if (!arg) throw new Error("{col:} needs a column name, such as {col:customer}");
+    return { kind: "col", name: arg };
+  }
+  if (!name) throw new Error("The template has an empty {}");
+  return { kind: "col", name: token.trim() };
+};
+
+// Throws with a message fit for the user when the template is malformed.
+export const parseNameTemplate = (template: string): NameTemplate => {
+  const parts: NameTemplate = [];
+  let rest = template;
+  while (rest) {
+    const open = rest.indexOf("{");
+    const close = rest.indexOf("}");
+    if (close !== -1 && (open === -1 || close < open)) throw new Error("The template has a '}' without a '{'");
+    if (open === -1) {
+      parts.push({ kind: "text", text: rest });
+      break;
+    }
+    if (open > 0) parts.push({ kind: "text", text: rest.slice(0, open) });
+    const end = rest.indexOf("}", open);
+    if (end === -1) throw new Error("The template has a '{' that is never closed");
+    const token = rest.slice(open + 1, end);
+    if (token.includes("{")) throw new Error("Tokens can't be nested");
+    parts.push(parseToken(token));
+    rest = rest.slice(end + 1);
+  }
+  return parts;
+};
+
+// What is wrong with a template, or null when it is fine. Columns are only
+// checked once a file has been loaded (non-null columns).
+export const nameTemplateError = (template: string, columns: string[] | null) => {
+  if (!template.trim()) return "The template is empty";
+  try {
+    const missing = parseNameTemplate(template).find(part => part.kind === "col" && columns && !columns.includes(part.name));
+    return missing?.kind === "col" ? `The data has no column named '${missing.name}'` : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const queryParam = (text: string, name: string | null) => {
+  const query = text.split("?")[1]?.split("#")[0];
+  if (!query) return "";
+  const params = new URLSearchParams(query);
+  return (name === null ? Array.from(params.values()).pop() : params.get(name)) ?? "";
+};
+
+export const renderTemplate = (template: NameTemplate, { row, index, text }: NameContext) =>
+  template.map(part => {
+    if (part.kind === "text") return part.text;
+    if (part.kind === "row") return String(index + 1).padStart(part.width, "0");
+    if (part.kind === "col") return row[part.name]?.trim() ?? "";
+    return queryParam(text, part.name);
+  }).join("");
+
+// Windows refuses these as names whatever the extension.
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i;
+// Leaves room for a collision suffix and the extension within the 255 bytes
+// most file systems allow.
+const MAX_NAME_BYTES = 200;
+
+const truncateBytes = (name: string, maxBytes: number) => {
+  const encoder = new TextEncoder();
+  let result = "";
+  let bytes = 0;
+  // for..of walks code points, so surrogate pairs are never split.
+  for (const char of name) {
+    bytes += encoder.encode(char).length;
+    if (bytes > maxBytes) break;
+    result += char;
+  }
+  return result;
+};
+
+// Makes a name safe on Windows, macOS and Linux: no path separators, no
+// characters Windows reserves, no control characters, no leading or
+// trailing dots and spaces, and none of the reserved device names.
+export const sanitizeFileName = (name: string) => {
+  let safe = name
+    .normalize("NFC")
+    .replace(/[<>:"/\\|?*\u0000-\u001F\u007F]/g, "_")
+    .replace(/^[\s.]+/, "");
+  safe = truncateBytes(safe, MAX_NAME_BYTES).replace(/[\s.]+$/, "");
+  return RESERVED_NAMES.test(safe.split(".")[0]) ? `_${safe}` : safe;
+};
+
+const encodedText = (payload: Payload, row: DataRow) => {
+  try {
+    return buildPayload(payload, row);
+  } catch {
+    return "";
+  }
+};
+
+// Slashes written in the template separate folder levels; slashes inside
+// values are replaced, so a column can't add levels of its own. Levels whose
+// values are all empty are named "unnamed" rather than dropped, so rows
+// don't move up a level.
+export const renderFolder = (template: NameTemplate, context: NameContext) => {
+  const levels = [{ text: "", hasToken: false }];
+  for (const part of template) {
+    const level = levels[levels.length - 1];
+    if (part.kind !== "text") {
+      level.text += renderTemplate([part], context).replace(/[/\\]/g, "_");
+      level.hasToken = true;
+      continue;
+    }
+    part.text.split("/").forEach((piece, index) => {
+      if (index > 0) levels.push({ text: "", hasToken: false });
+      levels[levels.length - 1].text += piece;
+    });
+  }
+  return levels
+    .filter(level => level.hasToken || level.text.trim())
+    .map(level => sanitizeFileName(level.text) || "unnamed")
+    .join("/");
+};
+
+export const outputFileName = (template: NameTemplate, context: NameContext, extension: string) => {
+  const name = sanitizeFileName(renderTemplate(template, context)) || `qr_image_${String(context.index + 1).padStart(4, "0")}`;
+  return `${name}.${extension}`;
+};
+
+export type FileNamePlan = {
+  // The file name of each row, or null for a row skipped as a duplicate.
+  names: (string | null)[];
+  // The folder path of each row; empty at the top level.
+  folders: string[];
+  // Rows whose path was already taken by an earlier row, with that path.
+  duplicates: { row: number; name: string }[];
+};
+
+export const filePath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+// Names every row up front so duplicates are found before anything is
+// written. Paths are compared without case, since Windows and macOS treat
+// "A.png" and "a.png" as one file.
+export const planFileNames = (rows: DataRow[], payload: Payload, options: FileNameOptions, extension: string): FileNamePlan => {
+  const template = parseNameTemplate(options.template);
+  const folderTemplate = options.folders.trim() ? parseNameTemplate(options.folders) : null;
+  const taken = new Set<string>();
+  const duplicates: FileNamePlan["duplicates"] = [];
+  const folders: string[] = [];
+  const names = rows.map((row, index) => {
+    const context = { row, index, text: encodedText(payload, row) };
+    const folder = folderTemplate ? renderFolder(folderTemplate, context) : "";
+    const name = outputFileName(template, context, extension);
+    folders.push(folder);
+    const isTaken = (candidate: string) => taken.has(filePath(folder, candidate).toLowerCase());
+    if (!isTaken(name)) {
+      taken.add(filePath(folder, name).toLowerCase());
+      return name;
+    }
+    duplicates.push({ row: index, name: filePath(folder, name) });
+    if (options.collisions === "skip") return null;
+    const stem = name.slice(0, -(extension.length + 1));
+    let count = 2;
+    while (isTaken(`${stem}_${count}.${extension}`)) count++;
+    const unique = `${stem}_${count}.${extension}`;
+    taken.add(filePath(folder, unique).toLowerCase());
+    return unique;
+  });
+  return { names, folders, duplicates };
+};
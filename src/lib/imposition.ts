@@ -0,0 +1,150 @@
+import type { Rect } from "@/lib/render";
+
+// Imposition tiles the finished cards onto press sheets. Everything here is
+// plain geometry in millimetres from the top-left of the sheet; the PDF and
+// image writers convert it into their own coordinate systems.
+
+export type SheetSize = "a4" | "a3" | "sra4" | "sra3" | "letter" | "tabloid";
+
+export const SHEET_SIZES: Record<SheetSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: "A4", widthMm: 210, heightMm: 297 },
+  a3: { label: "A3", widthMm: 297, heightMm: 420 },
+  sra4: { label: "SRA4", widthMm: 225, heightMm: 320 },
+  sra3: { label: "SRA3", widthMm: 320, heightMm: 450 },
+  letter: { label: "US Letter", widthMm: 215.9, heightMm: 279.4 },
+  tabloid: { label: "Tabloid", widthMm: 279.4, heightMm: 431.8 },
+};
+
+export type SheetOrientation = "portrait" | "landscape";
+
+// "auto" turns the cards a quarter turn when that fits more of them.
+export type CardRotation = "auto" | "none" | "rotate";
+
+// Step-and-repeat fills each sheet with consecutive rows. Cut-and-stack
+// numbers down through the pile instead, so that once the sheets are cut,
+// stacking the piles in slot order gives the rows back in sequence.
+export type ImpositionOrder = "step-and-repeat" | "cut-and-stack";
+
+export type ImpositionOptions = {
+  enabled: boolean;
+  sheet: SheetSize;
+  orientation: SheetOrientation;
+  // Kept free of cards on every side, for the press grippers and cut marks.
+  marginMm: number;
+  gutterMm: number;
+  rotation: CardRotation;
+  order: ImpositionOrder;
+  cutMarks: boolean;
+};
+
+export type SheetPlan = {
+  widthMm: number;
+  heightMm: number;
+  columns: number;
+  rows: number;
+  gutterMm: number;
+  // Cards are placed a quarter turn clockwise.
+  rotated: boolean;
+  // Trim box of each card on the sheet, left to right and top to bottom.
+  slots: Rect[];
+};
+
+export type Segment = { x1: number; y1: number; x2: number; y2: number };
+
+const CUT_MARK_GAP_MM = 2;
+const CUT_MARK_LENGTH_MM = 5;
+
+// Absorbs floating point noise, so a card that fits exactly isn't dropped.
+const EPSILON = 1e-6;
+
+const fitCount = (available: number, size: number, gutter: number) =>
+  Math.max(0, Math.floor((available + gutter + EPSILON) / (size + gutter)));
+
+export const planSheet = (card: { widthMm: number; heightMm: number }, options: ImpositionOptions): SheetPlan => {
+  const sheet = SHEET_SIZES[options.sheet];
+  const [widthMm, heightMm] = options.orientation === "landscape"
+    ? [Math.max(sheet.widthMm, sheet.heightMm), Math.min(sheet.widthMm, sheet.heightMm)]
+    : [Math.min(sheet.widthMm, sheet.heightMm), Math.max(sheet.widthMm, sheet.heightMm)];
+  const gutterMm = Math.max(0, options.gutterMm);
+  const usableWidth = widthMm - 2 * options.marginMm;
+  const usableHeight = heightMm - 2 * options.marginMm;
+
+  const grid = (slotWidth: number, slotHeight: number) => {
+    const columns = fitCount(usableWidth, slotWidth, gutterMm);
+    const rows = fitCount(usableHeight, slotHeight, gutterMm);
+    return { columns, rows, count: columns * rows, slotWidth, slotHeight };
+  };
+  const upright = grid(card.widthMm, card.heightMm);
+  const turned = grid(card.heightMm, card.widthMm);
+  const rotated = options.rotation === "rotate" || (options.rotation === "auto" && turned.count > upright.count);
+  const { columns, rows, count, slotWidth, slotHeight } = rotated ? turned : upright;
+
+  if (count === 0) {
+    throw new Error(`A ${card.widthMm} × ${card.heightMm} mm card does not fit on ${sheet.label} with ${options.marginMm} mm margins`);
+  }
+
+  // Centre the grid, so both sides of every cut get the same amount of paper.
+  const left = (widthMm - (columns * slotWidth + (columns - 1) * gutterMm)) / 2;
+  const top = (heightMm - (rows * slotHeight + (rows - 1) * gutterMm)) / 2;
+  const slots: Rect[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        x: left + column * (slotWidth + gutterMm),
+        y: top + row * (slotHeight + gutterMm),
+        width: slotWidth,
+        height: slotHeight,
+      });
+    }
+  }
+
+  return { widthMm, heightMm, columns, rows, gutterMm, rotated, slots };
+};
+
+// Maps each slot of each sheet, in output order, to the data row it holds.
+// Null marks a slot left blank on the last sheets.
+export const slotOrder = (rowCount: number, perSheet: number, order: ImpositionOrder): (number | null)[] => {
+  if (order === "step-and-repeat") return Array.from({ length: rowCount }, (_, row) => row);
+
+  const sheets = Math.ceil(rowCount / perSheet);
+  return Array.from({ length: sheets * perSheet }, (_, slot) => {
+    const row = (slot % perSheet) * sheets + Math.floor(slot / perSheet);
+    return row < rowCount ? row : null;
+  });
+};
+
+const distinct = (values: number[]) =>
+  [...new Set(values.map(value => Math.round(value * 1000) / 1000))].sort((a, b) => a - b);
+
+// Cut marks run in from the sheet margins along every trim line of the grid,
+// starting clear of the bleed so they never print on a card.
+export const cutMarks = (plan: SheetPlan, bleedMm: number): Segment[] => {
+  const xs = distinct(plan.slots.flatMap(slot => [slot.x, slot.x + slot.width]));
+  const ys = distinct(plan.slots.flatMap(slot => [slot.y, slot.y + slot.height]));
+  const start = bleedMm + CUT_MARK_GAP_MM;
+  const end = start + CUT_MARK_LENGTH_MM;
+  const [left, right] = [xs[0], xs[xs.length - 1]];
+  const [top, bottom] = [ys[0], ys[ys.length - 1]];
+
+  const marks: Segment[] = [];
+  for (const x of xs) {
+    marks.push({ x1: x, y1: Math.max(0, top - start), x2: x, y2: Math.max(0, top - end) });
+    marks.push({ x1: x, y1: Math.min(plan.heightMm, bottom + start), x2: x, y2: Math.min(plan.heightMm, bottom + end) });
+  }
+  for (const y of ys) {
+    marks.push({ x1: Math.max(0, left - start), y1: y, x2: Math.max(0, left - end), y2: y });
+    marks.push({ x1: Math.min(plan.widthMm, right + start), y1: y, x2: Math.min(plan.widthMm, right + end), y2: y });
+  }
+  // Marks squeezed to nothing by a narrow margin are dropped.
+  return marks.filter(mark => mark.x1 !== mark.x2 || mark.y1 !== mark.y2);
+};
+
+export const sheetFileName = (sheetIndex: number, extension: string) =>
+  `sheet_${String(sheetIndex + 1).padStart(4, "0")}.${extension}`;
+
+// Inverse of slotOrder: which sheet, and which slot on it, a row lands in.
+export const rowPlacement = (row: number, rowCount: number, perSheet: number, order: ImpositionOrder) => {
+  if (order === "step-and-repeat") return { sheet: Math.floor(row / perSheet), slot: row % perSheet };
+  const sheets = Math.ceil(rowCount / perSheet);
+  return { sheet: row % sheets, slot: Math.floor(row / sheets) };
+};
@@ -0,0 +1,129 @@
+import type { BgDimensions, QrConfig } from "@/lib/layout";
+import type { OutputFormat } from "@/lib/output-format";
+import type { PdfOptions } from "@/lib/pdf/card-pdf";
+import type { ImpositionOptions } from "@/lib/imposition";
+import type { SvgOptions } from "@/lib/card-svg";
+import type { Payload } from "@/lib/render";
+import type { FileNameOptions } from "@/lib/file-names";
+import type { ArchiveOptions } from "@/lib/archive-names";
+import type { OutputDirectory } from "@/lib/output-directory";
+
+// Persists the export job in IndexedDB so a run that was paused, or cut short
+// by a reload, can pick up where its last finished archive part ended.
+
+export type ExportJob = {
+  background: Blob;
+  backgroundName: string;
+  // Image for the QR logo, if qrConfig places one.
+  logo: Blob | null;
+  bgDimensions: BgDimensions;
+  qrConfig: QrConfig;
+  // How the encoded text is built from each row's columns.
+  payload: Payload;
+  format: OutputFormat;
+  pdf: PdfOptions;
+  svg: SvgOptions;
+  imposition: ImpositionOptions;
+  fileNames: FileNameOptions;
+  archives: ArchiveOptions;
+  // The folder files are written into instead of downloaded archives. The
+  // handle survives a reload, though writing to it has to be allowed again.
+  directory: OutputDirectory | null;
+  links: Record<string, string>[];
+  // Extra attempts made for a row before it is reported as failed.
+  retries: number;
+  // Decode the QR code on every image and fail the rows that don't read back
+  // as their link. Only image formats are verified.
+  verify: boolean;
+  createdAt: number;
+};
+
+// Row positions in progress and finished parts count slots in output order
+// (see jobSlots), which only differs from row order on cut-and-stack sheets.
+
+export type FinishedPart = {
+  name: string;
+  firstRow: number;
+  rowCount: number;
+  imageCount: number;
+};
+
+export type RowFailure = {
+  row: number;
+  link: string;
+  // "verify" rows rendered but didn't decode back to their link.
+  kind: "render" | "verify";
+  error: string;
+  attempts: number;
+};
+
+// A row left out on purpose, which isn't an error: "name" rows because an
+// earlier row had the same file name, "exists" rows because their file was
+// already in the output folder and is kept.
+export type SkippedRow = {
+  row: number;
+  link: string;
+  reason: "name" | "exists";
+  detail: string;
+};
+
+export type JobProgress = {
+  // Slots before this index are safely stored in finished parts.
+  nextRow: number;
+  // Last row the running part had reached when the checkpoint was written.
+  currentRow: number;
+  finishedParts: FinishedPart[];
+  failures: RowFailure[];
+  skipped: SkippedRow[];
+};
+
+const DB_NAME = "uvify";
+const DB_VERSION = 1;
+const STORE = "job";
+const JOB_KEY = "job";
+const PROGRESS_KEY = "progress";
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDb = () => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(STORE);
+  };
+  return request(req);
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await request(fn(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export const saveJob = (job: ExportJob, progress: JobProgress) =>
+  withStore("readwrite", store => {
+    store.put(job, JOB_KEY);
+    return store.put(progress, PROGRESS_KEY);
+  });
+
+export const saveProgress = (progress: JobProgress) =>
+  withStore("readwrite", store => store.put(progress, PROGRESS_KEY));
+
+export const loadJob = async (): Promise<{ job: ExportJob; progress: JobProgress } | null> => {
+  if (typeof indexedDB === "undefined") return null;
+  const [job, progress] = await Promise.all([
+    withStore<ExportJob | undefined>("readonly", store => store.get(JOB_KEY)),
+    withStore<JobProgress | undefined>("readonly", store => store.get(PROGRESS_KEY)),
+  ]);
+  if (!job || !progress) return null;
+  // Checkpoints written before skipped rows were recorded have no list.
+  return { job, progress: { ...progress, skipped: progress.skipped ?? [] } };
+};
+
+export const clearJob = () =>
+  withStore("readwrite", store => store.clear());
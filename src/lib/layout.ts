@@ -0,0 +1,77 @@
+import { SYMBOLOGIES, type ErrorCorrectionLevel, type LayoutElement, type LayoutSpec, type Payload, type QrLogo, type QrStyle, type Symbology } from "@/lib/render";
+
+export const DPI = 300;
+
+export type BgDimensions = {
+  widthCm: number;
+  heightCm: number;
+};
+
+export type CodeSymbology = "qr" | Symbology;
+
+export type QrConfig = {
+  symbology: CodeSymbology;
+  // Width of the code; QR and other square codes are as tall as they're wide.
+  qrSizeCm: number;
+  // Height of linear and PDF417 codes.
+  barcodeHeightCm: number;
+  // Text line under linear codes.
+  humanReadable: boolean;
+  marginTopCm: number;
+  marginRightCm: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  darkColor: string;
+  lightColor: string;
+  quietZoneModules: number;
+  knockout: boolean;
+  style: QrStyle;
+  logo: QrLogo | null;
+};
+
+// The box the code takes up on the card.
+export const codeSizeCm = (qrConfig: QrConfig) => {
+  const isSquare = qrConfig.symbology === "qr" || SYMBOLOGIES[qrConfig.symbology].isSquare;
+  return { widthCm: qrConfig.qrSizeCm, heightCm: isSquare ? qrConfig.qrSizeCm : qrConfig.barcodeHeightCm };
+};
+
+const toElement = (qrConfig: QrConfig, payload: Payload): LayoutElement => {
+  const placement = {
+    payload,
+    anchor: "top-right",
+    offsetXCm: qrConfig.marginRightCm,
+    offsetYCm: qrConfig.marginTopCm,
+    darkColor: qrConfig.darkColor,
+    lightColor: qrConfig.lightColor,
+    quietZoneModules: qrConfig.quietZoneModules,
+    knockout: qrConfig.knockout,
+  } as const;
+
+  if (qrConfig.symbology === "qr") {
+    return {
+      type: "qr",
+      ...placement,
+      sizeCm: qrConfig.qrSizeCm,
+      errorCorrectionLevel: qrConfig.errorCorrectionLevel,
+      style: qrConfig.style,
+      logo: qrConfig.logo,
+    };
+  }
+  return {
+    type: "barcode",
+    ...placement,
+    symbology: qrConfig.symbology,
+    ...codeSizeCm(qrConfig),
+    humanReadable: qrConfig.humanReadable,
+  };
+};
+
+// Maps the form controls onto the render layout. The code sits against the
+// top-right corner of the background, as it always has.
+export const toLayoutSpec = (bgDimensions: BgDimensions, qrConfig: QrConfig, payload: Payload): LayoutSpec => ({
+  widthCm: bgDimensions.widthCm,
+  heightCm: bgDimensions.heightCm,
+  dpi: DPI,
+  fit: "contain",
+  backgroundColor: "white",
+  elements: [toElement(qrConfig, payload)],
+});
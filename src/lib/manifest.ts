@@ -0,0 +1,148 @@
+import Papa from "papaparse";
+import { cmToPx, type DataRow, type EncodedElement, type LayoutSpec } from "@/lib/render";
+
+// Every part of an export carries a manifest.csv and a manifest.json listing
+// the rows it holds: which file each one went into, what was encoded, and a
+// hash of the file, so a print run can be reconciled against its data
+// without opening a single image. An export to a folder keeps one manifest
+// at the top of the folder, which each part and each later run adds to.
+
+export const MANIFEST_NAMES = { csv: "manifest.csv", json: "manifest.json" };
+
+// The file a row went into. Rows on an imposed sheet share the sheet's
+// file; rows in a PDF share the PDF and are told apart by page. Their hash
+// is of the page's content stream, since the PDF isn't finished when they
+// are listed and carries this manifest inside it.
+export type ManifestFile = {
+  name: string;
+  page: number | null;
+  // 1-based slot on a press sheet; null for a file per card.
+  position: number | null;
+  widthCm: number;
+  heightCm: number;
+  sha256: string;
+};
+
+export type ManifestEntry = {
+  // 1-based, like the rows in the error report.
+  row: number;
+  file: string;
+  page: number | null;
+  position: number | null;
+  // One for each element of the layout, in order.
+  elements: EncodedElement[];
+  // Vector formats give the size they would have at the layout's DPI.
+  widthPx: number;
+  heightPx: number;
+  widthCm: number;
+  heightCm: number;
+  dpi: number;
+  sha256: string;
+  columns: DataRow;
+};
+
+export type Manifest = {
+  // `elements` come from the renderer, which encoded them to draw the card.
+  add: (row: number, data: DataRow, file: ManifestFile, elements: EncodedElement[]) => void;
+  // Roughly what the manifest files will take up, so a part split by size
+  // keeps room for them.
+  readonly estimatedBytes: number;
+  // The manifest files. Entries from an earlier manifest of the same folder
+  // are kept, except where this one lists the same file again.
+  files: (earlier?: ManifestEntry[]) => { name: string; data: Blob }[];
+};
+
+export const sha256 = async (data: Blob) => {
+  const digest = await crypto.subtle.digest("SHA-256", await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// The first element's columns are "payload" and "qr_version"; any further
+// ones are numbered from 2, as in "payload_2".
+const elementField = (name: string, index: number) => (index === 0 ? name : `${name}_${index + 1}`);
+
+const csvFields = (elementCount: number) => {
+  const elements = Array.from({ length: elementCount }, (_, index) => index);
+  return [
+    "row", "file", "page", "position", ...elements.map(index => elementField("payload", index)),
+    "width_px", "height_px", "width_cm", "height_cm", "dpi", "sha256", ...elements.map(index => elementField("qr_version", index)),
+  ];
+};
+
+// Manifests written before each element was listed held the first one's
+// payload and QR version at the top level.
+type LegacyEntry = ManifestEntry & { payload?: string; qrVersion?: number | null };
+
+// The entries of a manifest.json, or none when it is missing or unreadable.
+export const parseManifest = (text: string | null): ManifestEntry[] => {
+  if (!text) return [];
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(({ payload, qrVersion, ...entry }: LegacyEntry) => ({
+      ...entry,
+      elements: entry.elements ?? (payload === undefined ? [] : [{ payload, qrVersion: qrVersion ?? null }]),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const entryKey = (entry: ManifestEntry) => `${entry.file}\n${entry.page}\n${entry.position}`;
+
+const roundCm = (cm: number) => Math.round(cm * 1000) / 1000;
+
+// `columns` are the data file's headers, in order. They follow the fixed
+// fields in the CSV; one that shares a fixed field's name is prefixed.
+export const createManifest = (spec: LayoutSpec, columns: string[]): Manifest => {
+  const entries: ManifestEntry[] = [];
+  let estimatedBytes = 0;
+
+  return {
+    add: (row, data, file, elements) => {
+      const entry: ManifestEntry = {
+        row: row + 1,
+        file: file.name,
+        page: file.page,
+        position: file.position,
+        elements,
+        widthPx: cmToPx(file.widthCm, spec.dpi),
+        heightPx: cmToPx(file.heightCm, spec.dpi),
+        widthCm: roundCm(file.widthCm),
+        heightCm: roundCm(file.heightCm),
+        dpi: spec.dpi,
+        sha256: file.sha256,
+        columns: Object.fromEntries(columns.map(column => [column, data[column] ?? ""])),
+      };
+      entries.push(entry);
+      // The CSV line holds about as much as the JSON object.
+      estimatedBytes += 2 * JSON.stringify(entry).length;
+    },
+
+    get estimatedBytes() {
+      return estimatedBytes;
+    },
+
+    files: (earlier = []) => {
+      const listed = new Set(entries.map(entryKey));
+      const all = [...earlier.filter(entry => !listed.has(entryKey(entry))), ...entries];
+      const allColumns = [...new Set([...columns, ...earlier.flatMap(entry => Object.keys(entry.columns ?? {}))])];
+      const elementCount = Math.max(0, ...all.map(entry => entry.elements.length));
+      const elements = (entry: ManifestEntry) => Array.from({ length: elementCount }, (_, index) => entry.elements[index]);
+      const fields = csvFields(elementCount);
+      const csv = Papa.unparse({
+        fields: [...fields, ...allColumns.map(column => (fields.includes(column) ? `column_${column}` : column))],
+        data: all.map(entry => [
+          entry.row, entry.file, entry.page ?? "", entry.position ?? "", ...elements(entry).map(element => element?.payload ?? ""),
+          entry.widthPx, entry.heightPx, entry.widthCm, entry.heightCm, entry.dpi,
+          entry.sha256, ...elements(entry).map(element => element?.qrVersion ?? ""),
+          ...allColumns.map(column => entry.columns?.[column] ?? ""),
+        ]),
+      });
+      return [
+        { name: MANIFEST_NAMES.csv, data: new Blob([csv], { type: "text/csv;charset=utf-8" }) },
+        { name: MANIFEST_NAMES.json, data: new Blob([JSON.stringify(all, null, 2)], { type: "application/json" }) },
+      ];
+    },
+  };
+};
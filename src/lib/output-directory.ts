@@ -0,0 +1,116 @@
+// Writes an export straight into a folder the user picks, instead of
+// downloading archives: one file per card, in subfolders from the folder
+// template. Like the save dialog, this is only in Chromium browsers.
+
+export type ExistingFiles = "overwrite" | "skip";
+
+export const EXISTING_FILES: Record<ExistingFiles, string> = {
+  overwrite: "Overwrite them",
+  skip: "Keep them and skip the row",
+};
+
+export type OutputDirectory = {
+  handle: FileSystemDirectoryHandle;
+  // What happens to a card file that is already in the folder. Sheets and
+  // PDFs are always replaced, since which cards they hold depends on the
+  // whole run.
+  existingFiles: ExistingFiles;
+};
+
+// The form's choice. A job is only given an OutputDirectory once a folder
+// has been picked.
+export type FolderOutputOptions = {
+  enabled: boolean;
+  handle: FileSystemDirectoryHandle | null;
+  existingFiles: ExistingFiles;
+};
+
+export const DEFAULT_FOLDER_OUTPUT: FolderOutputOptions = { enabled: false, handle: null, existingFiles: "overwrite" };
+
+export const isDirectoryOutputSupported = () =>
+  typeof window !== "undefined" && typeof window.showDirectoryPicker === "function";
+
+export const pickOutputDirectory = () =>
+  window.showDirectoryPicker!({ id: "uvify-output", mode: "readwrite" });
+
+// Must be called while a click still counts as a user gesture, since a
+// folder restored from a checkpoint has to be granted again after a reload.
+export const ensureWritable = async (handle: FileSystemDirectoryHandle) => {
+  const descriptor = { mode: "readwrite" } as const;
+  if ((await handle.queryPermission?.(descriptor)) === "granted") return;
+  if ((await handle.requestPermission?.(descriptor)) !== "granted") {
+    throw new Error(`The browser was not allowed to write to the folder ${handle.name}`);
+  }
+};
+
+const isNotFound = (error: unknown) =>
+  error instanceof DOMException && (error.name === "NotFoundError" || error.name === "TypeMismatchError");
+
+export type DirectoryWriter = {
+  name: string;
+  // `path` is relative to the folder, with slashes between subfolders,
+  // which are created as needed.
+  addFile: (path: string, data: Blob) => Promise<void>;
+  // A file to stream into. Nothing is replaced until the stream is closed.
+  openFile: (path: string) => Promise<WritableStream<Uint8Array>>;
+  exists: (path: string) => Promise<boolean>;
+  // The file's text, or null when there is no such file.
+  readText: (path: string) => Promise<string | null>;
+};
+
+export const createDirectoryWriter = (handle: FileSystemDirectoryHandle): DirectoryWriter => {
+  const folders = new Map<string, Promise<FileSystemDirectoryHandle>>([["", Promise.resolve(handle)]]);
+
+  // Cached as promises, so rows written concurrently don't race to create
+  // the same subfolder.
+  const folder = (path: string, create: boolean): Promise<FileSystemDirectoryHandle> => {
+    const cached = folders.get(path);
+    if (cached) return cached;
+    const slash = path.lastIndexOf("/");
+    const opened = folder(path.slice(0, Math.max(slash, 0)), create)
+      .then(parent => parent.getDirectoryHandle(path.slice(slash + 1), { create }));
+    // A folder that wasn't there is looked up again once it may have been created.
+    if (create) folders.set(path, opened);
+    return opened;
+  };
+
+  const fileHandle = async (path: string, create: boolean) => {
+    const slash = path.lastIndexOf("/");
+    const parent = await folder(slash === -1 ? "" : path.slice(0, slash), create);
+    return parent.getFileHandle(path.slice(slash + 1), { create });
+  };
+
+  const lookUp = async (path: string) => {
+    try {
+      return await fileHandle(path, false);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+
+  return {
+    name: handle.name,
+
+    addFile: async (path, data) => {
+      const stream = await (await fileHandle(path, true)).createWritable();
+      try {
+        await stream.write(data);
+        await stream.close();
+      } catch (error) {
+        await stream.abort(error).catch(() => {});
+        throw error;
+      }
+    },
+
+    openFile: async path => (await fileHandle(path, true)).createWritable(),
+
+    exists: async path => (await lookUp(path)) !== null,
+
+    readText: async path => {
+      const file = await lookUp(path);
+      return file && (await file.getFile()).text();
+    },
+  };
+};
+
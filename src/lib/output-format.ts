@@ -0,0 +1,15 @@
+import type { RasterFormat } from "@/lib/encode";
+
+export type OutputFormat = RasterFormat | "pdf" | "svg";
+
+// `fileExtension` names the per-row (or per-sheet) files inside an archive
+// part; PDF output is a single document per part and has none.
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; partExtension: string; fileExtension?: string }> = {
+  jpeg: { label: "JPEG", partExtension: "zip", fileExtension: "jpg" },
+  png: { label: "PNG (lossless)", partExtension: "zip", fileExtension: "png" },
+  pdf: { label: "PDF (print-ready)", partExtension: "pdf" },
+  svg: { label: "SVG (vector)", partExtension: "zip", fileExtension: "svg" },
+};
+
+export const isRasterFormat = (format: OutputFormat): format is RasterFormat =>
+  format === "jpeg" || format === "png";
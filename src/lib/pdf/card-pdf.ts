@@ -0,0 +1,433 @@
+import { buildPayload, fitRect, resolveLayout, type DataRow, type BarcodeElement, type EncodedElement, type LayoutSpec, type QrElement, type Rect } from "@/lib/render";
+import { clearedBy, qrGeometry } from "@/lib/render/qr";
+import { barcodeGeometry } from "@/lib/render/barcode";
+import { buildQrShapes, gradientLine, type PathCommand } from "@/lib/render/qr-shapes";
+import { logoImageRect, logoPlate, logoPlateColor } from "@/lib/render/qr-logo";
+import type { RenderAssets } from "@/lib/render-pool";
+import { createPdfWriter, deflate, num } from "@/lib/pdf/pdf-writer";
+import { cutMarks, type SheetPlan } from "@/lib/imposition";
+import { parseColor } from "@/lib/color";
+
+export type PdfOptions = {
+  bleedMm: number;
+  cropMarks: boolean;
+  // Fit the background to the bleed box instead of the trim box, so artwork
+  // that reaches the trim edge runs on into the bleed.
+  extendBackground: boolean;
+};
+
+// A file embedded in the PDF, which readers list as an attachment.
+export type PdfAttachment = {
+  name: string;
+  data: Blob;
+};
+
+// A card's page content, with what each element of the layout encodes.
+export type PdfCard = {
+  content: string;
+  elements: EncodedElement[];
+};
+
+export type CardPdf = {
+  // Card artwork for one row; safe to call concurrently.
+  buildCard: (row: DataRow) => PdfCard;
+  // Writes one page with a card in each slot. Null leaves a slot empty.
+  // Resolves to the page's uncompressed content stream, for the manifest to
+  // hash.
+  addPage: (cards: (string | null)[]) => Promise<Blob>;
+  close: (attachments?: PdfAttachment[]) => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+};
+
+const PT_PER_CM = 72 / 2.54;
+const PT_PER_MM = PT_PER_CM / 10;
+const MARK_LENGTH = 5 * PT_PER_MM;
+const MARK_GAP = 3; // Between the bleed edge and the start of a crop mark
+const MARK_WIDTH = 0.25;
+
+type EmbeddedImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  colorSpace: "DeviceGray" | "DeviceRGB";
+};
+
+// Reads the frame header of a JPEG. Returns null for anything a PDF reader
+// can't take as-is, such as CMYK files with Adobe's inverted channels.
+const readJpegFrame = (bytes: Uint8Array): Omit<EmbeddedImage, "data"> | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0) !== 0xFFD8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    const isFrame = marker >= 0xFFC0 && marker <= 0xFFCF && marker !== 0xFFC4 && marker !== 0xFFC8 && marker !== 0xFFCC;
+    if (isFrame) {
+      const components = bytes[offset + 9];
+      if (components !== 1 && components !== 3) return null;
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+        colorSpace: components === 1 ? "DeviceGray" : "DeviceRGB",
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// JPEG backgrounds are embedded untouched; anything else is flattened onto
+// white and re-encoded, since DCTDecode is the only image filter we emit.
+const prepareBackground = async (background: Blob): Promise<EmbeddedImage> => {
+  const bytes = new Uint8Array(await background.arrayBuffer());
+  const frame = readJpegFrame(bytes);
+  if (frame) return { ...frame, data: bytes };
+
+  const bitmap = await createImageBitmap(background);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const jpeg = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.95 });
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height, colorSpace: "DeviceRGB" };
+};
+
+// Logos only ever print a few centimetres wide, so this is plenty.
+const MAX_LOGO_PX = 1024;
+
+type EmbeddedLogo = {
+  // Deflated RGB samples, and the alpha channel as a soft mask when the
+  // logo has any transparency.
+  data: Uint8Array;
+  alpha: Uint8Array | null;
+  width: number;
+  height: number;
+};
+
+const prepareLogo = async (logo: Blob): Promise<EmbeddedLogo> => {
+  const bitmap = await createImageBitmap(logo);
+  const scale = Math.min(1, MAX_LOGO_PX / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // Canvas pixels are premultiplied internally but come back straight, which
+  // is what a soft-masked PDF image expects.
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const rgb = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+  let isOpaque = true;
+  for (let i = 0; i < width * height; i++) {
+    rgb[i * 3] = pixels[i * 4];
+    rgb[i * 3 + 1] = pixels[i * 4 + 1];
+    rgb[i * 3 + 2] = pixels[i * 4 + 2];
+    alpha[i] = pixels[i * 4 + 3];
+    if (alpha[i] !== 255) isOpaque = false;
+  }
+  return { data: await deflate(rgb), alpha: isOpaque ? null : await deflate(alpha), width, height };
+};
+
+// Converts a CSS hex colour (or white/black) into PDF "r g b" operands.
+export const pdfRgb = (color: string) => {
+  const rgb = parseColor(color);
+  if (!rgb) return "1 1 1";
+  return [rgb.r, rgb.g, rgb.b].map(channel => num(channel / 255)).join(" ");
+};
+
+const pathOps = (commands: PathCommand[]) => commands.map(command => {
+  if (command[0] === "Z") return "h";
+  const [op, ...values] = command;
+  return `${values.map(num).join(" ")} ${op === "M" ? "m" : op === "L" ? "l" : "c"}`;
+}).join("\n");
+
+// Fills an outline with a solid colour, or with a gradient shading clipped
+// to it. Shadings are defined across a unit square and scaled to the symbol.
+const fillOps = (commands: PathCommand[], color: string, shading: string | null, symbolSize: number) => shading
+  ? `q\n${pathOps(commands)}\nW* n ${symbolSize} 0 0 ${symbolSize} 0 0 cm /${shading} sh\nQ`
+  : `${pdfRgb(color)} rg\n${pathOps(commands)}\nf*`;
+
+// Draws the QR outlines in module units, flipped so rows run downwards as
+// they do everywhere else. Returns the symbol's version with the operators.
+const qrPath = (text: string, element: QrElement, box: Rect, shading: string | null, logoImage: EmbeddedLogo | null) => {
+  const { modules, version, moduleSize, symbol, light, logo } = qrGeometry(text, element, box);
+  const shapes = buildQrShapes(modules, element.style, clearedBy(logo));
+  const ops: string[] = [];
+  if (light) {
+    ops.push(`${pdfRgb(element.lightColor)} rg ${num(light.x)} ${num(light.y)} ${num(light.width)} ${num(light.height)} re f`);
+  }
+  ops.push(`q ${num(moduleSize)} 0 0 ${num(-moduleSize)} ${num(symbol.x)} ${num(symbol.y + symbol.height)} cm`);
+  ops.push(fillOps(shapes.modules, element.darkColor, shading, modules.size));
+  ops.push(element.style.finderColor
+    ? fillOps(shapes.finders, element.style.finderColor, null, modules.size)
+    : fillOps(shapes.finders, element.darkColor, shading, modules.size));
+  if (logo) {
+    const plate = logoPlate(logo);
+    if (plate) ops.push(`${pdfRgb(logoPlateColor(element.lightColor))} rg\n${pathOps(plate)}\nf`);
+    const rect = logoImage && logoImageRect(logo, element.logo?.paddingModules ?? 0, logoImage);
+    // Image space has its origin at the bottom-left, so it's flipped back
+    // upright inside the module space.
+    if (rect) ops.push(`q ${num(rect.width)} 0 0 ${num(-rect.height)} ${num(rect.x)} ${num(rect.y + rect.height)} cm /Im1 Do Q`);
+  }
+  ops.push("Q");
+  return { ops: ops.join("\n"), version };
+};
+
+// Draws a barcode's bars and text the same way, in module units.
+const barcodePath = (text: string, element: BarcodeElement, box: Rect) => {
+  const { shapes, moduleSize, symbol, light } = barcodeGeometry(text, element, box);
+  const ops: string[] = [];
+  if (light) {
+    ops.push(`${pdfRgb(element.lightColor)} rg ${num(light.x)} ${num(light.y)} ${num(light.width)} ${num(light.height)} re f`);
+  }
+  ops.push(`q ${num(moduleSize)} 0 0 ${num(-moduleSize)} ${num(symbol.x)} ${num(symbol.y + symbol.height)} cm`);
+  ops.push(`${pdfRgb(element.darkColor)} rg\n${pathOps([...shapes.bars, ...shapes.text])}\nf*`);
+  ops.push("Q");
+  return ops.join("\n");
+};
+
+// Corner crop marks around a single card, pointing away from its trim box.
+const cropMarks = (trim: Rect, bleed: number) => {
+  const start = bleed + MARK_GAP;
+  const end = start + MARK_LENGTH;
+  const ops: string[] = [];
+  for (const x of [trim.x, trim.x + trim.width]) {
+    for (const y of [trim.y, trim.y + trim.height]) {
+      const dx = x === trim.x ? -1 : 1;
+      const dy = y === trim.y ? -1 : 1;
+      ops.push(`${num(x + dx * start)} ${num(y)} m ${num(x + dx * end)} ${num(y)} l S`);
+      ops.push(`${num(x)} ${num(y + dy * start)} m ${num(x)} ${num(y + dy * end)} l S`);
+    }
+  }
+  return ops;
+};
+
+const strokeMarks = (ops: string[]) => ops.length > 0 ? [`q ${MARK_WIDTH} w 1 1 1 1 K`, ...ops, "Q"].join("\n") : "";
+
+const pdfString = (text: string) => `(${text.replace(/[\\()]/g, c => `\\${c}`)})`;
+
+const box = (rect: Rect) => `[${num(rect.x)} ${num(rect.y)} ${num(rect.x + rect.width)} ${num(rect.y + rect.height)}]`;
+
+export type PdfSheet = {
+  plan: SheetPlan;
+  cutMarks: boolean;
+};
+
+// Where the cards go on each page, in points from the bottom-left corner.
+type PagePlan = {
+  mediaBox: Rect;
+  slots: Rect[];
+  rotated: boolean;
+  bleed: number;
+  marks: string;
+  // Page boxes written besides the MediaBox.
+  boxes: string;
+};
+
+// One card per page, centred in a slug wide enough for its crop marks.
+const singleCardPage = (spec: LayoutSpec, options: PdfOptions): PagePlan => {
+  const bleed = options.bleedMm * PT_PER_MM;
+  const slug = options.cropMarks ? bleed + MARK_GAP + MARK_LENGTH + MARK_GAP : bleed;
+  const trim: Rect = { x: slug, y: slug, width: spec.widthCm * PT_PER_CM, height: spec.heightCm * PT_PER_CM };
+  const bleedBox: Rect = { x: trim.x - bleed, y: trim.y - bleed, width: trim.width + 2 * bleed, height: trim.height + 2 * bleed };
+
+  return {
+    mediaBox: { x: 0, y: 0, width: trim.width + 2 * slug, height: trim.height + 2 * slug },
+    slots: [trim],
+    rotated: false,
+    bleed,
+    marks: options.cropMarks ? strokeMarks(cropMarks(trim, bleed)) : "",
+    boxes: `/BleedBox ${box(bleedBox)} /TrimBox ${box(trim)}`,
+  };
+};
+
+// A press sheet holding a grid of cards. Neighbouring cards share the gutter,
+// so each one only bleeds into its half of it.
+const sheetPage = ({ plan, cutMarks: withCutMarks }: PdfSheet, options: PdfOptions): PagePlan => {
+  const bleedMm = Math.min(options.bleedMm, plan.gutterMm / 2);
+  const height = plan.heightMm * PT_PER_MM;
+  const marks = withCutMarks
+    ? cutMarks(plan, bleedMm).map(({ x1, y1, x2, y2 }) =>
+      `${num(x1 * PT_PER_MM)} ${num(height - y1 * PT_PER_MM)} m ${num(x2 * PT_PER_MM)} ${num(height - y2 * PT_PER_MM)} l S`
+    )
+    : [];
+
+  const mediaBox: Rect = { x: 0, y: 0, width: plan.widthMm * PT_PER_MM, height };
+
+  return {
+    mediaBox,
+    slots: plan.slots.map(slot => ({
+      x: slot.x * PT_PER_MM,
+      y: height - (slot.y + slot.height) * PT_PER_MM,
+      width: slot.width * PT_PER_MM,
+      height: slot.height * PT_PER_MM,
+    })),
+    rotated: plan.rotated,
+    bleed: bleedMm * PT_PER_MM,
+    marks: strokeMarks(marks),
+    // The sheet is printed whole and cut up afterwards along the cut marks,
+    // so its finished size is the paper itself.
+    boxes: `/TrimBox ${box(mediaBox)}`,
+  };
+};
+
+// Moves card space, which has its origin at the bottom-left of the trim box,
+// onto a slot. Rotated cards are turned a quarter turn clockwise.
+const placeCard = (slot: Rect, rotated: boolean) => rotated
+  ? `0 -1 1 0 ${num(slot.x)} ${num(slot.y + slot.height)} cm`
+  : `1 0 0 1 ${num(slot.x)} ${num(slot.y)} cm`;
+
+// Builds a print PDF with one page per data row, or one page per press sheet
+// when a sheet plan is given. Pages share a single copy of the background
+// and logo images and draw every code as vector paths.
+export const createCardPdf = async (
+  stream: WritableStream<Uint8Array>,
+  spec: LayoutSpec,
+  assets: RenderAssets,
+  options: PdfOptions,
+  sheet: PdfSheet | null = null,
+): Promise<CardPdf> => {
+  const image = await prepareBackground(assets.background);
+  const logoImage = assets.logo ? await prepareLogo(assets.logo) : null;
+  const pdf = await createPdfWriter(stream);
+  const catalogId = pdf.reserve();
+  const pagesId = pdf.reserve();
+  const imageId = pdf.reserve();
+  const logoId = logoImage ? pdf.reserve() : null;
+  const pageIds: number[] = [];
+
+  try {
+    await pdf.writeStream(
+      imageId,
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+      image.data,
+    );
+    if (logoImage && logoId !== null) {
+      const dimensions = `/Type /XObject /Subtype /Image /Width ${logoImage.width} /Height ${logoImage.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+      let mask = "";
+      if (logoImage.alpha) {
+        const maskId = pdf.reserve();
+        await pdf.writeStream(maskId, `${dimensions} /ColorSpace /DeviceGray`, logoImage.alpha);
+        mask = ` /SMask ${maskId} 0 R`;
+      }
+      await pdf.writeStream(logoId, `${dimensions} /ColorSpace /DeviceRGB${mask}`, logoImage.data);
+    }
+  } catch (error) {
+    await pdf.abort(error).catch(() => {});
+    throw error;
+  }
+
+  const layout = resolveLayout(spec, image);
+
+  // Gradients don't depend on the row, so each styled element needs only
+  // one shading object. Its axis spans a unit square, since the number of
+  // modules (and so the size of module space) varies from row to row.
+  const shadings = new Map<number, string>();
+  const shadingResources: string[] = [];
+  try {
+    for (const [index, { element }] of layout.elements.entries()) {
+      const gradient = element.type === "qr" ? element.style.gradient : null;
+      if (!gradient) continue;
+      const { x1, y1, x2, y2 } = gradientLine(1, gradient.angleDeg);
+      const id = pdf.reserve();
+      await pdf.writeObject(id, [
+        `<< /ShadingType 2 /ColorSpace /DeviceRGB /Extend [true true]`,
+        `/Coords [${[x1, y1, x2, y2].map(num).join(" ")}]`,
+        `/Function << /FunctionType 2 /Domain [0 1] /C0 [${pdfRgb(element.darkColor)}] /C1 [${pdfRgb(gradient.toColor)}] /N 1 >> >>`,
+      ].join("\n"));
+      shadings.set(index, `Sh${index}`);
+      shadingResources.push(`/Sh${index} ${id} 0 R`);
+    }
+  } catch (error) {
+    await pdf.abort(error).catch(() => {});
+    throw error;
+  }
+
+  const page = sheet ? sheetPage(sheet, options) : singleCardPage(spec, options);
+  const ptPerPx = 72 / spec.dpi;
+  const { bleed } = page;
+  const trimWidth = spec.widthCm * PT_PER_CM;
+  const trimHeight = spec.heightCm * PT_PER_CM;
+
+  // Layout rects are in output pixels from the top-left of the trim; card
+  // space is in points from its bottom-left.
+  const toCard = (rect: Rect): Rect => ({
+    x: rect.x * ptPerPx,
+    y: trimHeight - (rect.y + rect.height) * ptPerPx,
+    width: rect.width * ptPerPx,
+    height: rect.height * ptPerPx,
+  });
+
+  let backgroundRect = toCard(layout.background);
+  if (options.extendBackground) {
+    const bleedPx = bleed / ptPerPx;
+    const rect = fitRect(spec.fit, image, layout.widthPx + 2 * bleedPx, layout.heightPx + 2 * bleedPx);
+    backgroundRect = toCard({ ...rect, x: rect.x - bleedPx, y: rect.y - bleedPx });
+  }
+
+  const bleedRect = `${num(-bleed)} ${num(-bleed)} ${num(trimWidth + 2 * bleed)} ${num(trimHeight + 2 * bleed)} re`;
+  const backgroundOps = [
+    `${bleedRect} W n`,
+    `${pdfRgb(spec.backgroundColor)} rg ${bleedRect} f`,
+    `q ${num(backgroundRect.width)} 0 0 ${num(backgroundRect.height)} ${num(backgroundRect.x)} ${num(backgroundRect.y)} cm /Im0 Do Q`,
+  ].join("\n");
+  const encoder = new TextEncoder();
+
+  return {
+    buildCard: (row) => {
+      const drawn = layout.elements.map(({ element, rect }, index) => {
+        const payload = buildPayload(element.payload, row);
+        if (element.type === "barcode") return { ops: barcodePath(payload, element, toCard(rect)), payload, qrVersion: null };
+        const { ops, version } = qrPath(payload, element, toCard(rect), shadings.get(index) ?? null, logoImage);
+        return { ops, payload, qrVersion: version };
+      });
+      return {
+        content: [backgroundOps, ...drawn.map(({ ops }) => ops)].join("\n"),
+        elements: drawn.map(({ payload, qrVersion }) => ({ payload, qrVersion })),
+      };
+    },
+
+    addPage: async (cards) => {
+      const placed = cards.flatMap((card, index) =>
+        card === null ? [] : [`q ${placeCard(page.slots[index], page.rotated)}`, card, "Q"]
+      );
+      const source = encoder.encode([...placed, page.marks].join("\n"));
+      const content = await deflate(source);
+      const contentId = pdf.reserve();
+      const pageId = pdf.reserve();
+      await pdf.writeStream(contentId, "/Filter /FlateDecode", content);
+      await pdf.writeObject(pageId, [
+        `<< /Type /Page /Parent ${pagesId} 0 R`,
+        `/MediaBox ${box(page.mediaBox)} ${page.boxes}`.trimEnd(),
+        `/Resources << /XObject << /Im0 ${imageId} 0 R${logoId !== null ? ` /Im1 ${logoId} 0 R` : ""} >>${shadingResources.length > 0 ? ` /Shading << ${shadingResources.join(" ")} >>` : ""} >>`,
+        `/Contents ${contentId} 0 R >>`,
+      ].join("\n"));
+      pageIds.push(pageId);
+      return new Blob([source]);
+    },
+
+    close: async (attachments = []) => {
+      const kids = pageIds.map(id => `${id} 0 R`).join(" ");
+      await pdf.writeObject(pagesId, `<< /Type /Pages /Kids [${kids}] /Count ${pageIds.length} >>`);
+      // The name tree of embedded files has to be sorted by name.
+      const files: string[] = [];
+      for (const { name, data } of [...attachments].sort((a, b) => (a.name < b.name ? -1 : 1))) {
+        const fileId = pdf.reserve();
+        const specId = pdf.reserve();
+        await pdf.writeStream(fileId, "/Type /EmbeddedFile /Filter /FlateDecode", await deflate(new Uint8Array(await data.arrayBuffer())));
+        await pdf.writeObject(specId, `<< /Type /Filespec /F ${pdfString(name)} /EF << /F ${fileId} 0 R >> >>`);
+        files.push(`${pdfString(name)} ${specId} 0 R`);
+      }
+      const names = files.length > 0 ? ` /Names << /EmbeddedFiles << /Names [${files.join(" ")}] >> >>` : "";
+      await pdf.writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R${names} >>`);
+      await pdf.close(catalogId);
+    },
+
+    abort: (reason) => pdf.abort(reason),
+  };
+};
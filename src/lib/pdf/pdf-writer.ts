@@ -0,0 +1,90 @@
+// A minimal streaming PDF writer. Objects are written as soon as they are
+// added and only their byte offsets are kept for the cross-reference table,
+// so documents with thousands of pages don't have to fit in memory.
+
+export type PdfWriter = {
+  // Allocates an object number, for objects that are referenced before they
+  // can be written (such as the page tree).
+  reserve: () => number;
+  writeObject: (id: number, body: string) => Promise<void>;
+  writeStream: (id: number, dictionary: string, data: Uint8Array) => Promise<void>;
+  close: (rootId: number) => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+};
+
+const encoder = new TextEncoder();
+
+// Formats a number the way PDF content streams expect: no exponent and no
+// more precision than a printer can use.
+export const num = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+export const deflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const createPdfWriter = async (stream: WritableStream<Uint8Array>): Promise<PdfWriter> => {
+  const writer = stream.getWriter();
+  const offsets: number[] = [];
+  let offset = 0;
+  let nextId = 1;
+  let closed = false;
+
+  const write = async (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    await writer.ready;
+    await writer.write(bytes);
+    offset += bytes.byteLength;
+  };
+
+  const begin = async (id: number) => {
+    if (closed) throw new Error("Cannot add objects to a closed PDF");
+    offsets[id] = offset;
+    await write(`${id} 0 obj\n`);
+  };
+
+  // The binary comment tells transfer tools the file is not plain text.
+  await write(new Uint8Array([...encoder.encode("%PDF-1.4\n%"), 0xE2, 0xE3, 0xCF, 0xD3, 0x0A]));
+
+  return {
+    reserve: () => nextId++,
+
+    writeObject: async (id, body) => {
+      await begin(id);
+      await write(`${body}\nendobj\n`);
+    },
+
+    writeStream: async (id, dictionary, data) => {
+      await begin(id);
+      await write(`<< ${dictionary} /Length ${data.byteLength} >>\nstream\n`);
+      await write(data);
+      await write("\nendstream\nendobj\n");
+    },
+
+    close: async (rootId) => {
+      if (closed) return;
+      closed = true;
+
+      const xrefOffset = offset;
+      const size = nextId;
+      let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+      for (let id = 1; id < size; id++) {
+        xref += offsets[id] === undefined
+          ? "0000000000 65535 f \n"
+          : `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+      }
+      await write(xref);
+      await write(`trailer\n<< /Size ${size} /Root ${rootId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+      await writer.close();
+    },
+
+    abort: async (reason) => {
+      if (closed) return;
+      closed = true;
+      await writer.abort(reason);
+    },
+  };
+};
@@ -0,0 +1,115 @@
+import QRCode from "qrcode";
+import { buildPayload, type DataRow, type ErrorCorrectionLevel, type Payload, type QrElement } from "@/lib/render";
+
+// Below this a module is too small for most phone cameras to resolve at
+// arm's length.
+export const MIN_MODULE_MM = 0.4;
+
+export const ERROR_CORRECTION_LEVELS: Record<ErrorCorrectionLevel, string> = {
+  L: "L (7% recovery)",
+  M: "M (15% recovery)",
+  Q: "Q (25% recovery)",
+  H: "H (30% recovery)",
+};
+
+export type QrMetrics = {
+  version: number;
+  moduleCount: number;
+  moduleMm: number;
+};
+
+export type CapacityIssue = {
+  row: number;
+  link: string;
+  message: string;
+};
+
+// The parts of a QR element that decide how large its modules come out.
+export type QrSizing = Pick<QrElement, "errorCorrectionLevel" | "sizeCm" | "quietZoneModules">;
+
+// Throws when the text doesn't fit in any QR version at this level.
+export const measureQr = (text: string, sizing: QrSizing): QrMetrics => {
+  const { version, modules } = QRCode.create(text, { errorCorrectionLevel: sizing.errorCorrectionLevel });
+  const moduleMm = (sizing.sizeCm * 10) / (modules.size + 2 * sizing.quietZoneModules);
+  return { version, moduleCount: modules.size, moduleMm };
+};
+
+const checkRow = (text: string, sizing: QrSizing): { metrics: QrMetrics | null; message: string | null } => {
+  try {
+    const metrics = measureQr(text, sizing);
+    const message = metrics.moduleMm < MIN_MODULE_MM
+      ? `Version ${metrics.version} modules are ${metrics.moduleMm.toFixed(2)} mm, below the ${MIN_MODULE_MM} mm minimum`
+      : null;
+    return { metrics, message };
+  } catch {
+    return { metrics: null, message: `Too long for a QR code at level ${sizing.errorCorrectionLevel}` };
+  }
+};
+
+export type CapacityReport = {
+  issues: CapacityIssue[];
+  // The codes for the longest and shortest rows, as a guide to the range of
+  // versions in the file.
+  longest: QrMetrics | null;
+  shortest: QrMetrics | null;
+};
+
+// Time spent checking before handing the main thread back.
+const SLICE_MS = 30;
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Checks every row of a file. Byte mode is the least compact encoding the
+// library picks, so a run of lowercase letters as long as the row's UTF-8
+// bytes gives an upper bound on its version, and only rows whose bound
+// fails need an exact (and much slower) check. The work is done in short
+// slices so the page stays responsive on large files.
+export const checkCapacity = async (
+  rows: DataRow[],
+  payload: Payload,
+  sizing: QrSizing,
+  signal: AbortSignal,
+): Promise<CapacityReport> => {
+  const encoder = new TextEncoder();
+  const bounds = new Map<number, boolean>();
+  const issues: CapacityIssue[] = [];
+  let longestText = "";
+  let longestLength = 0;
+  let shortestText = "";
+  let shortestLength = Infinity;
+  let sliceStart = Date.now();
+
+  for (let index = 0; index < rows.length; index++) {
+    if (Date.now() - sliceStart > SLICE_MS) {
+      await nextTask();
+      signal.throwIfAborted();
+      sliceStart = Date.now();
+    }
+
+    // Rows whose payload can't be built are reported by the payload check.
+    let text: string;
+    try {
+      text = buildPayload(payload, rows[index]);
+    } catch {
+      continue;
+    }
+    const length = encoder.encode(text).length;
+    if (length > longestLength) {
+      longestText = text;
+      longestLength = length;
+    }
+    if (length < shortestLength) {
+      shortestText = text;
+      shortestLength = length;
+    }
+    if (!bounds.has(length)) bounds.set(length, checkRow("a".repeat(length), sizing).message === null);
+    if (bounds.get(length)) continue;
+
+    const { message } = checkRow(text, sizing);
+    if (message) issues.push({ row: index, link: text, message });
+  }
+
+  const longest = longestText ? checkRow(longestText, sizing).metrics : null;
+  const shortest = shortestText ? checkRow(shortestText, sizing).metrics : null;
+  return { issues, longest, shortest };
+};
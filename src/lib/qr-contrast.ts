@@ -0,0 +1,63 @@
+import { contrastRatio, parseColor, relativeLuminance } from "@/lib/color";
+import { isTransparent } from "@/lib/render/qr";
+import type { LayoutElement } from "@/lib/render";
+
+// Below this ratio between dark and light modules, phone cameras in poor
+// light start to misread codes.
+export const MIN_CONTRAST = 3;
+
+// Luminance of the artwork under a code. The 10th percentile stands for its
+// darker parts, which are what light modules get confused with.
+export type ArtworkSample = {
+  mean: number;
+  dark: number;
+};
+
+export const sampleArtwork = (pixels: Uint8ClampedArray): ArtworkSample => {
+  const values: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    values.push(relativeLuminance({ r: pixels[i], g: pixels[i + 1], b: pixels[i + 2] }));
+  }
+  if (values.length === 0) return { mean: 1, dark: 1 };
+  values.sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return { mean, dark: values[Math.floor(values.length * 0.1)] };
+};
+
+const ratioText = (ratio: number) => `${ratio.toFixed(1)}:1`;
+
+// Lists what about a code's colours, or the artwork showing through it, is
+// likely to make it hard to scan. `artwork` is null until it has been sampled.
+export const checkQrContrast = (
+  element: Pick<LayoutElement, "darkColor" | "lightColor" | "knockout" | "quietZoneModules">,
+  artwork: ArtworkSample | null,
+): string[] => {
+  const warnings: string[] = [];
+  const dark = parseColor(element.darkColor);
+  if (!dark) return ["The dark colour must be a solid colour"];
+  const darkLuminance = relativeLuminance(dark);
+
+  const light = isTransparent(element.lightColor) ? null : parseColor(element.lightColor);
+  if (light) {
+    const lightLuminance = relativeLuminance(light);
+    const ratio = contrastRatio(darkLuminance, lightLuminance);
+    if (ratio < MIN_CONTRAST) {
+      warnings.push(`The dark and light colours only have ${ratioText(ratio)} contrast; aim for at least ${MIN_CONTRAST}:1`);
+    }
+    if (darkLuminance > lightLuminance) {
+      warnings.push("Light modules on a dark background are not read by some older scanners");
+    }
+  }
+
+  // Without a light fill the artwork stands in for the light modules, and
+  // without a knockout it forms the quiet zone.
+  const artworkShows = !light || (!element.knockout && element.quietZoneModules > 0);
+  if (artworkShows && artwork) {
+    const ratio = contrastRatio(darkLuminance, artwork.dark);
+    if (ratio < MIN_CONTRAST || artwork.dark < darkLuminance) {
+      const where = light ? "in the quiet zone" : "under the code";
+      warnings.push(`The artwork ${where} is too dark in places (${ratioText(ratio)} against the dark modules); add a light colour or a knockout box`);
+    }
+  }
+  return warnings;
+};
@@ -0,0 +1,69 @@
+import jsQR from "jsqr";
+import { drawQr, createQrMatrix } from "@/lib/render/qr";
+import { buildPayload, type DataRow, type ImageSource, type QrElement, type ResolvedLayout } from "@/lib/render";
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Reads a QR code out of raw RGBA pixels, or returns null when none is found.
+// Light-on-dark codes are tried as well, since styles can produce them.
+export const decodeQr = ({ data, width, height }: Pixels): string | null =>
+  jsQR(data, width, height, { inversionAttempts: "attemptBoth" })?.data ?? null;
+
+// Resolution of the test render: enough for the decoder to see the shape of
+// styled modules without taking long.
+const PX_PER_MODULE = 6;
+const MARGIN_MODULES = 4;
+
+// Renders a code on its own, on white, and checks that it decodes back to
+// the text. Catches styles and logos that make a code unreadable regardless
+// of the artwork around it.
+export const checkQrDecodes = (text: string, element: QrElement, logo: ImageSource | null = null): boolean => {
+  const moduleCount = createQrMatrix(text, element).size + 2 * element.quietZoneModules;
+  const codePx = moduleCount * PX_PER_MODULE;
+  const marginPx = MARGIN_MODULES * PX_PER_MODULE;
+  const size = codePx + 2 * marginPx;
+
+  const canvas = new OffscreenCanvas(size, size);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, size, size);
+  drawQr(ctx, (width, height) => new OffscreenCanvas(width, height), text, element, { x: marginPx, y: marginPx, width: codePx, height: codePx }, logo);
+
+  return decodeQr(ctx.getImageData(0, 0, size, size)) === text;
+};
+
+// Margins read around a code, as shares of its width, so artwork crowding
+// the quiet zone counts against it as it would for a phone camera. The
+// decoder's thresholding depends on the framing, just as a camera's does
+// from one try to the next, so a few are tried before giving up.
+const FRAMINGS = [0.15, 0.05, 0.3];
+
+// Verification failures are reported once rather than retried, since the
+// same row renders the same way every time.
+export const verificationError = (message: string) => Object.assign(new Error(message), { name: "VerificationError" });
+
+export const isVerificationError = (error: unknown) => error instanceof Error && error.name === "VerificationError";
+
+// Decodes every QR code on a finished card and throws a verification error
+// if one of them doesn't read back as its row's text. Other symbologies are
+// left alone, since the decoder only reads QR codes.
+export const verifyCard = (ctx: OffscreenCanvasRenderingContext2D, layout: ResolvedLayout, row: DataRow) => {
+  for (const { element, rect } of layout.elements) {
+    if (element.type !== "qr") continue;
+    const text = buildPayload(element.payload, row);
+    let decoded: string | null = null;
+    for (const framing of FRAMINGS) {
+      const surround = Math.round(rect.width * framing);
+      const x = Math.max(0, Math.floor(rect.x) - surround);
+      const y = Math.max(0, Math.floor(rect.y) - surround);
+      const width = Math.min(layout.widthPx, Math.ceil(rect.x + rect.width) + surround) - x;
+      const height = Math.min(layout.heightPx, Math.ceil(rect.y + rect.height) + surround) - y;
+      if (width <= 0 || height <= 0) throw verificationError("Verification failed: the QR code is outside the card");
+      decoded = decodeQr(ctx.getImageData(x, y, width, height));
+      if (decoded !== null) break;
+    }
+    if (decoded === null) throw verificationError("Verification failed: the QR code could not be read");
+    if (decoded !== text) throw verificationError(`Verification failed: the QR code reads "${decoded}"`);
+  }
+};
@@ -0,0 +1,205 @@
+import type { DataRow, EncodedElement, LayoutSpec } from "@/lib/render";
+import type { RasterFormat } from "@/lib/encode";
+
+// Cards come back as files in the given format, or with "bitmap" as their
+// pixels, for cards that are drawn onto a sheet before anything is encoded.
+export type CardFormat = RasterFormat | "bitmap";
+
+export type CardImage<F extends CardFormat> = F extends "bitmap" ? ImageBitmap : Blob;
+
+// A card from a worker, with what each element of the layout encodes, so
+// the manifest needn't encode the row again.
+export type RenderedCard<T> = {
+  image: T;
+  elements: EncodedElement[];
+};
+
+// Image files a pool decodes once per worker; see RenderImages.
+export type RenderAssets = {
+  background: Blob;
+  logo: Blob | null;
+};
+
+export type WorkerRequest =
+  | { type: "init"; assets: RenderAssets; spec: LayoutSpec; format: CardFormat; verify: boolean }
+  | { type: "render"; id: number; row: DataRow };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "init-failed"; message: string }
+  | { type: "rendered"; id: number; card: RenderedCard<Blob | ImageBitmap> }
+  // `name` keeps the kind of error, such as a failed verification.
+  | { type: "failed"; id: number; message: string; name: string };
+
+type Task<T> = {
+  id: number;
+  row: DataRow;
+  resolve: (card: RenderedCard<T>) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+export type RenderPool<T = Blob> = {
+  size: number;
+  render: (row: DataRow) => Promise<RenderedCard<T>>;
+  terminate: () => void;
+};
+
+// Leave one core for the UI thread, and cap the pool so a many-core machine
+// doesn't decode the images once per core for no extra throughput.
+const MAX_WORKERS = 8;
+
+// A single card renders in well under a second; anything this slow is a
+// stuck worker, which gets replaced so the rest of the batch can carry on.
+const RENDER_TIMEOUT_MS = 60_000;
+
+export const getPoolSize = () => {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.min(MAX_WORKERS, Math.max(1, cores - 1));
+};
+
+export const isRenderPoolSupported = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+export const createRenderPool = async <F extends CardFormat>(
+  assets: RenderAssets,
+  spec: LayoutSpec,
+  format: F,
+  size = getPoolSize(),
+  // Decode the QR codes on every card before it is encoded; see verifyCard.
+  verify = false,
+): Promise<RenderPool<CardImage<F>>> => {
+  const queue: Task<CardImage<F>>[] = [];
+  const idle: Worker[] = [];
+  const running = new Map<Worker, Task<CardImage<F>>>();
+  let nextId = 0;
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const task = queue.shift()!;
+      running.set(worker, task);
+      task.timer = setTimeout(() => {
+        retire(worker, new Error(`Rendering timed out after ${RENDER_TIMEOUT_MS / 1000}s`));
+      }, RENDER_TIMEOUT_MS);
+      worker.postMessage({ type: "render", id: task.id, row: task.row } satisfies WorkerRequest);
+    }
+  };
+
+  const workers: Worker[] = [];
+  let terminated = false;
+
+  const dropWorker = (worker: Worker) => {
+    worker.terminate();
+    const index = workers.indexOf(worker);
+    if (index !== -1) workers.splice(index, 1);
+  };
+
+  // Fails the worker's current task, then swaps the worker for a fresh one.
+  // Without any workers left, the queued tasks would wait forever, so they
+  // fail too.
+  const retire = (worker: Worker, error: Error) => {
+    const task = running.get(worker);
+    running.delete(worker);
+    clearTimeout(task?.timer);
+    task?.reject(error);
+
+    dropWorker(worker);
+    if (terminated) return;
+    startWorker()
+      .then(replacement => {
+        idle.push(replacement);
+        dispatch();
+      })
+      .catch(replacementError => {
+        console.error("Could not replace render worker:", replacementError);
+        if (workers.length === 0) queue.splice(0).forEach(queued => queued.reject(replacementError));
+      });
+  };
+
+  // A worker that fails to start is dropped before the promise rejects.
+  const startWorker = () => new Promise<Worker>((resolve, reject) => {
+    const worker = new Worker(new URL("./render.worker.ts", import.meta.url));
+    workers.push(worker);
+    let started = false;
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (message.type === "ready") {
+        started = true;
+        resolve(worker);
+        return;
+      }
+      if (message.type === "init-failed") {
+        dropWorker(worker);
+        reject(new Error(message.message));
+        return;
+      }
+
+      const task = running.get(worker);
+      running.delete(worker);
+      idle.push(worker);
+      if (task) {
+        clearTimeout(task.timer);
+        if (message.type === "rendered") task.resolve(message.card as RenderedCard<CardImage<F>>);
+        else task.reject(Object.assign(new Error(message.message), { name: message.name }));
+      }
+      dispatch();
+    };
+
+    worker.onerror = (e) => {
+      const error = new Error(e.message || "Render worker crashed");
+      if (!started) {
+        dropWorker(worker);
+        reject(error);
+        return;
+      }
+      // An idle worker that crashes would otherwise be handed the next task
+      // and hold it until the timeout, so it is replaced straight away.
+      const index = idle.indexOf(worker);
+      if (index !== -1) idle.splice(index, 1);
+      retire(worker, error);
+    };
+
+    worker.postMessage({ type: "init", assets, spec, format, verify } satisfies WorkerRequest);
+  });
+
+  const terminate = () => {
+    terminated = true;
+    workers.forEach(worker => worker.terminate());
+    const error = new Error("Render pool terminated");
+    running.forEach(task => {
+      clearTimeout(task.timer);
+      task.reject(error);
+    });
+    queue.splice(0).forEach(task => task.reject(error));
+    running.clear();
+    idle.length = 0;
+  };
+
+  const results = await Promise.allSettled(Array.from({ length: size }, startWorker));
+  // A worker that crashed while the others were starting has already been
+  // retired, and its replacement added to the idle list.
+  const ready = results.flatMap(result => (result.status === "fulfilled" && workers.includes(result.value) ? [result.value] : []));
+  if (ready.length === 0) {
+    terminate();
+    const failure = results.find(result => result.status === "rejected") as PromiseRejectedResult | undefined;
+    throw failure?.reason ?? new Error("No render workers could be started");
+  }
+  idle.push(...ready);
+
+  return {
+    size: ready.length,
+    render: (row: DataRow) => new Promise<RenderedCard<CardImage<F>>>((resolve, reject) => {
+      if (workers.length === 0) {
+        reject(new Error("No render workers are left"));
+        return;
+      }
+      queue.push({ id: nextId++, row, resolve, reject });
+      dispatch();
+    }),
+    terminate,
+  };
+};
@@ -0,0 +1,66 @@
+import { encodeCanvas } from "@/lib/encode";
+import { renderRow, resolveLayout, type DataRow, type LayoutSpec } from "@/lib/render";
+import { verifyCard } from "@/lib/qr-decode";
+import type { CardFormat, RenderedCard, WorkerRequest, WorkerResponse } from "@/lib/render-pool";
+
+let spec: LayoutSpec | null = null;
+let format: CardFormat = "jpeg";
+let verify = false;
+let images: { background: ImageBitmap; logo: ImageBitmap | null } | null = null;
+
+const closeImages = () => {
+  if (!images) return;
+  images.background.close();
+  images.logo?.close();
+  images = null;
+};
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const createCanvas = (width: number, height: number) => new OffscreenCanvas(width, height);
+
+const render = async (row: DataRow): Promise<RenderedCard<Blob | ImageBitmap>> => {
+  if (!spec || !images) {
+    throw new Error("Render worker used before it was initialised");
+  }
+  const { canvas, elements } = renderRow(spec, images, row, createCanvas);
+  if (verify) verifyCard(canvas.getContext("2d")!, resolveLayout(spec, images.background), row);
+  // Handing over the pixels leaves the canvas empty, which is fine, since a
+  // new one is made for every card.
+  const image = format === "bitmap" ? canvas.transferToImageBitmap() : await encodeCanvas(canvas, format, spec.dpi);
+  return { image, elements };
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === "init") {
+    try {
+      closeImages();
+      spec = message.spec;
+      format = message.format;
+      verify = message.verify;
+      const { background, logo } = message.assets;
+      images = {
+        background: await createImageBitmap(background),
+        logo: logo ? await createImageBitmap(logo) : null,
+      };
+      post({ type: "ready" });
+    } catch (error) {
+      post({ type: "init-failed", message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  try {
+    const card = await render(message.row);
+    post({ type: "rendered", id: message.id, card }, card.image instanceof ImageBitmap ? [card.image] : []);
+  } catch (error) {
+    post({
+      type: "failed",
+      id: message.id,
+      message: error instanceof Error ? error.message : String(error),
+      name: error instanceof Error ? error.name : "Error",
+    });
+  }
+};
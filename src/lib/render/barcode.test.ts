@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SYMBOLOGIES, encodeBarcode, type Symbology } from "@/lib/render";
+
+// Loads the render core through Node's own resolver, as a script or a
+// server route would, rather than through the bundler.
+
+test("every symbology encodes its sample", () => {
+  for (const symbology of Object.keys(SYMBOLOGIES) as Symbology[]) {
+    const shapes = encodeBarcode(SYMBOLOGIES[symbology].sample, { symbology, humanReadable: true });
+    assert.ok(shapes.width > 0 && shapes.height > 0, symbology);
+    assert.ok(shapes.bars.length > 0, symbology);
+  }
+});
+
+test("linear codes carry their text as outlines", () => {
+  const shapes = encodeBarcode("590123412345", { symbology: "ean13", humanReadable: true });
+  assert.ok(shapes.text.length > 0);
+  assert.notEqual(shapes.barBottom, null);
+  assert.equal(encodeBarcode("590123412345", { symbology: "ean13", humanReadable: false }).text.length, 0);
+});
+
+test("encoding errors lose the bwip-js code", () => {
+  assert.throws(() => encodeBarcode("12", { symbology: "ean13", humanReadable: false }), (error: Error) => !/^bwipp\./.test(error.message));
+});
@@ -0,0 +1,227 @@
+// The browser build is plain JavaScript with both an ESM and a CommonJS
+// entry, so the render core loads in Node as well as in the bundle. The
+// "generic" build only has the ESM one.
+import bwipjs, { type DrawingContext } from "bwip-js/browser";
+import { tracePath, type RenderContext } from "@/lib/render/canvas";
+import type { BarcodeElement, Rect, Symbology } from "@/lib/render/layout";
+import { roundedRect, type PathCommand } from "@/lib/render/qr-shapes";
+
+type SymbologyInfo = {
+  label: string;
+  bcid: string;
+  // Linear codes are bars that stretch to the height of their box.
+  isLinear: boolean;
+  // Two-dimensional codes that come out square, and so need no height of
+  // their own.
+  isSquare: boolean;
+  // Valid data to preview the code with before a file is loaded.
+  sample: string;
+};
+
+export const SYMBOLOGIES: Record<Symbology, SymbologyInfo> = {
+  datamatrix: { label: "Data Matrix", bcid: "datamatrix", isLinear: false, isSquare: true, sample: "https://example.com/?id=sample" },
+  gs1datamatrix: { label: "GS1 DataMatrix", bcid: "gs1datamatrix", isLinear: false, isSquare: true, sample: "(01)09501101530003(17)271231(10)AB123" },
+  azteccode: { label: "Aztec", bcid: "azteccode", isLinear: false, isSquare: true, sample: "https://example.com/?id=sample" },
+  pdf417: { label: "PDF417", bcid: "pdf417", isLinear: false, isSquare: false, sample: "https://example.com/?id=sample" },
+  code128: { label: "Code 128", bcid: "code128", isLinear: true, isSquare: false, sample: "SAMPLE-0001" },
+  "gs1-128": { label: "GS1-128", bcid: "gs1-128", isLinear: true, isSquare: false, sample: "(01)09501101530003(10)AB123" },
+  ean13: { label: "EAN-13", bcid: "ean13", isLinear: true, isSquare: false, sample: "590123412345" },
+};
+
+// Outlines of a symbol in module units, from the top-left of the symbol,
+// recorded from bwip-js so that the canvas, PDF and SVG renderers all draw
+// the same shapes. Human-readable text comes as glyph outlines, which keeps
+// the vector outputs free of font dependencies.
+export type BarcodeShapes = {
+  width: number;
+  height: number;
+  bars: PathCommand[];
+  text: PathCommand[];
+  // Bottom of the regular bars of a linear code, which stretch to fill the
+  // element's box. Null for two-dimensional codes.
+  barBottom: number | null;
+};
+
+// Drawing units per module handed to bwip-js. Glyphs are traced at this
+// size, so it also sets how finely the text is outlined.
+const SCALE = 10;
+
+// Keeps bars tall enough to scan when the box is very flat.
+const MIN_BAR_MODULES = 10;
+
+// Control point distance for approximating a quarter ellipse with a cubic.
+const KAPPA = 0.5523;
+
+// A drawing context that keeps the outlines instead of painting them.
+const recordShapes = (): DrawingContext<BarcodeShapes> => {
+  const { FontLib } = bwipjs;
+  let unit = SCALE;
+  let width = 0;
+  let height = 0;
+  let barBottom: number | null = null;
+  const bars: PathCommand[] = [];
+  const text: PathCommand[] = [];
+
+  return {
+    // Two-dimensional symbols ask for a larger scale; one module is always
+    // the last scale requested.
+    scale: (sx) => {
+      unit = sx;
+      return null;
+    },
+    measure: (str, font, fwidth, fheight) => {
+      const fontId = FontLib.lookup(font);
+      let textWidth = 0;
+      let ascent = 0;
+      let descent = 0;
+      for (let i = 0; i < str.length; i++) {
+        const glyph = FontLib.getglyph(fontId, str.charCodeAt(i), fwidth | 0, fheight | 0);
+        if (!glyph) continue;
+        ascent = Math.max(ascent, glyph.top);
+        descent = Math.max(descent, glyph.height - glyph.top);
+        textWidth += i === str.length - 1 ? glyph.left + glyph.width : glyph.advance;
+      }
+      return { width: textWidth, ascent, descent };
+    },
+    init: (w, h) => {
+      width = w / unit;
+      height = h / unit;
+    },
+    // Bars of linear codes arrive as strokes centred on x.
+    line: (x0, y0, x1, y1, lw) => {
+      if (x0 === x1) {
+        const bottom = Math.max(y0, y1);
+        bars.push(...roundedRect((x0 - lw / 2) / unit, Math.min(y0, y1) / unit, lw / unit, Math.abs(y1 - y0) / unit, 0));
+        barBottom = Math.min(barBottom ?? Infinity, bottom / unit);
+      } else {
+        bars.push(...roundedRect(Math.min(x0, x1) / unit, (y0 - lw / 2) / unit, Math.abs(x1 - x0) / unit, lw / unit, 0));
+      }
+    },
+    polygon: (pts) => {
+      pts.forEach(([x, y], i) => bars.push([i === 0 ? "M" : "L", x / unit, y / unit]));
+      bars.push(["Z"]);
+    },
+    hexagon(pts) {
+      this.polygon(pts);
+    },
+    ellipse: (x, y, rx, ry) => {
+      const [cx, cy, a, b] = [x / unit, y / unit, rx / unit, ry / unit];
+      const [ka, kb] = [a * KAPPA, b * KAPPA];
+      bars.push(
+        ["M", cx - a, cy],
+        ["C", cx - a, cy - kb, cx - ka, cy - b, cx, cy - b],
+        ["C", cx + ka, cy - b, cx + a, cy - kb, cx + a, cy],
+        ["C", cx + a, cy + kb, cx + ka, cy + b, cx, cy + b],
+        ["C", cx - ka, cy + b, cx - a, cy + kb, cx - a, cy],
+        ["Z"],
+      );
+    },
+    fill: () => {},
+    // `y` is the baseline; glyph outlines have y pointing up. Quadratic
+    // segments are raised to cubics, the only curves the renderers take.
+    text: (x, y, str, _rgb, font) => {
+      const fontId = FontLib.lookup(font.name);
+      let originX = x;
+      for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        const glyph = FontLib.getpaths(fontId, ch, font.width | 0, font.height | 0);
+        const toX = (gx: number) => (originX + gx) / unit;
+        const toY = (gy: number) => (y - gy) / unit;
+        let [lastX, lastY] = [0, 0];
+        for (const segment of glyph ?? []) {
+          if (segment.type === "M" || segment.type === "L") {
+            text.push([segment.type, toX(segment.x), toY(segment.y)]);
+          } else if (segment.type === "Q") {
+            text.push([
+              "C",
+              toX(lastX + (2 / 3) * (segment.cx - lastX)), toY(lastY + (2 / 3) * (segment.cy - lastY)),
+              toX(segment.x + (2 / 3) * (segment.cx - segment.x)), toY(segment.y + (2 / 3) * (segment.cy - segment.y)),
+              toX(segment.x), toY(segment.y),
+            ]);
+          } else {
+            text.push(["C", toX(segment.cx1), toY(segment.cy1), toX(segment.cx2), toY(segment.cy2), toX(segment.x), toY(segment.y)]);
+          }
+          [lastX, lastY] = [segment.x, segment.y];
+        }
+        if (glyph?.length) text.push(["Z"]);
+        originX += FontLib.getglyph(fontId, ch, font.width | 0, font.height | 0).advance + (font.dx | 0);
+      }
+    },
+    end: () => ({ width, height, bars, text, barBottom }),
+  };
+};
+
+// bwip-js errors start with an internal code, such as
+// "bwipp.ean13badLength#4108: EAN-13 must be 12 or 13 digits".
+const encodingError = (error: unknown) =>
+  new Error(String(error instanceof Error ? error.message : error).replace(/^bwipp\.\w+#\d+:\s*/, ""));
+
+// Throws when the text can't be encoded in this symbology.
+export const encodeBarcode = (text: string, element: Pick<BarcodeElement, "symbology" | "humanReadable">): BarcodeShapes => {
+  const { bcid, isLinear } = SYMBOLOGIES[element.symbology];
+  try {
+    return bwipjs.render({ bcid, text, scale: SCALE, includetext: isLinear && element.humanReadable }, recordShapes());
+  } catch (error) {
+    throw encodingError(error);
+  }
+};
+
+const mapPoints = (commands: PathCommand[], map: (x: number, y: number) => [number, number]): PathCommand[] =>
+  commands.map(command => {
+    if (command[0] === "Z") return command;
+    if (command[0] === "C") {
+      return ["C", ...map(command[1], command[2]), ...map(command[3], command[4]), ...map(command[5], command[6])];
+    }
+    return [command[0], ...map(command[1], command[2])];
+  });
+
+// Stretches the regular bars of a linear code so the whole symbol is
+// `height` modules tall. Anything below them (longer guard bars, the text)
+// moves down unchanged.
+const fitHeight = (shapes: BarcodeShapes, height: number): BarcodeShapes => {
+  const { barBottom } = shapes;
+  if (barBottom === null) return shapes;
+  const below = shapes.height - barBottom;
+  const barHeight = Math.max(MIN_BAR_MODULES, height - below);
+  const shift = barHeight - barBottom;
+  const scaleY = barHeight / barBottom;
+  return {
+    ...shapes,
+    height: barHeight + below,
+    bars: mapPoints(shapes.bars, (x, y) => [x, y <= barBottom ? y * scaleY : y + shift]),
+    text: mapPoints(shapes.text, (x, y) => [x, y + shift]),
+    barBottom: barHeight,
+  };
+};
+
+// Fits a symbol into the element's box, quiet zone included. `light` is the
+// area painted in the light colour, as for QR codes.
+export const barcodeGeometry = (text: string, element: BarcodeElement, box: Rect) => {
+  let shapes = encodeBarcode(text, element);
+  const quietX = element.quietZoneModules;
+  const quietY = shapes.barBottom === null ? quietX : 0;
+  let moduleSize = box.width / (shapes.width + 2 * quietX);
+  shapes = fitHeight(shapes, box.height / moduleSize);
+  moduleSize = Math.min(moduleSize, box.height / (shapes.height + 2 * quietY));
+
+  const width = shapes.width * moduleSize;
+  const height = shapes.height * moduleSize;
+  const symbol: Rect = { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+  const light = element.lightColor === "transparent" ? null : element.knockout ? box : symbol;
+  return { shapes, moduleSize, symbol, light };
+};
+
+export const drawBarcode = <TImage>(ctx: RenderContext<TImage>, text: string, element: BarcodeElement, box: Rect) => {
+  const { shapes, moduleSize, symbol, light } = barcodeGeometry(text, element, box);
+  ctx.save();
+  if (light) {
+    ctx.fillStyle = element.lightColor;
+    ctx.fillRect(light.x, light.y, light.width, light.height);
+  }
+  ctx.translate(symbol.x, symbol.y);
+  ctx.scale(moduleSize, moduleSize);
+  ctx.fillStyle = element.darkColor;
+  tracePath(ctx, [...shapes.bars, ...shapes.text]);
+  ctx.fill("evenodd");
+  ctx.restore();
+};
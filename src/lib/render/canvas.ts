@@ -0,0 +1,47 @@
+import type { PathCommand } from "@/lib/render/qr-shapes";
+
+// The slice of the Canvas 2D API the renderer relies on. OffscreenCanvas in
+// the browser satisfies it directly; Node canvas implementations can be
+// passed in through a CanvasFactory. `TImage` is what the context draws:
+// DOM image sources in the browser, a Node library's own image and canvas
+// classes otherwise.
+
+export type RenderContext<TImage = CanvasImageSource> = Pick<
+  CanvasRenderingContext2D,
+  | "fillStyle" | "fillRect" | "imageSmoothingEnabled" | "save" | "restore"
+  | "translate" | "scale" | "beginPath" | "moveTo" | "lineTo" | "bezierCurveTo" | "closePath" | "fill"
+  | "createLinearGradient"
+> & {
+  drawImage(image: TImage, dx: number, dy: number, dw: number, dh: number): void;
+};
+
+export type RenderCanvas<TImage = CanvasImageSource> = {
+  width: number;
+  height: number;
+  getContext(contextId: "2d"): RenderContext<TImage> | null;
+};
+
+// The canvases are also drawn onto one another, so they must be images
+// their own contexts take.
+export type CanvasFactory<
+  TImage = CanvasImageSource,
+  TCanvas extends RenderCanvas<TImage> & TImage = RenderCanvas<TImage> & TImage,
+> = (width: number, height: number) => TCanvas;
+
+export type ImageSource<TImage = CanvasImageSource> = TImage & { width: number; height: number };
+
+export const getContext2d = <TImage>(canvas: RenderCanvas<TImage>) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return ctx;
+};
+
+export const tracePath = <TImage>(ctx: RenderContext<TImage>, commands: PathCommand[]) => {
+  ctx.beginPath();
+  for (const command of commands) {
+    if (command[0] === "M") ctx.moveTo(command[1], command[2]);
+    else if (command[0] === "L") ctx.lineTo(command[1], command[2]);
+    else if (command[0] === "C") ctx.bezierCurveTo(command[1], command[2], command[3], command[4], command[5], command[6]);
+    else ctx.closePath();
+  }
+};
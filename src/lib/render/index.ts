@@ -0,0 +1,63 @@
+import { getContext2d, type CanvasFactory, type ImageSource, type RenderCanvas } from "@/lib/render/canvas";
+import { resolveLayout, type LayoutSpec } from "@/lib/render/layout";
+import { drawQr } from "@/lib/render/qr";
+import { drawBarcode } from "@/lib/render/barcode";
+import { buildPayload } from "@/lib/render/payload";
+
+export * from "@/lib/render/canvas";
+export * from "@/lib/render/layout";
+export * from "@/lib/render/qr-shapes";
+export * from "@/lib/render/qr-logo";
+export * from "@/lib/render/payload";
+export { SYMBOLOGIES, encodeBarcode } from "@/lib/render/barcode";
+
+export type DataRow = Record<string, string>;
+
+// What one element of a card encodes. The version is null for symbologies
+// other than QR.
+export type EncodedElement = {
+  payload: string;
+  qrVersion: number | null;
+};
+
+// A card, and what each element of its layout encodes, in order.
+export type RenderedRow<TCanvas> = {
+  canvas: TCanvas;
+  elements: EncodedElement[];
+};
+
+// The images a card is drawn from. The logo is only used by elements that
+// have one.
+export type RenderImages<TImage = CanvasImageSource> = {
+  background: ImageSource<TImage>;
+  logo: ImageSource<TImage> | null;
+};
+
+// Renders one data row onto a new canvas. Encoding the result is left to the
+// caller, since each environment has its own way of producing a file.
+export const renderRow = <TCanvas extends RenderCanvas<TImage> & TImage, TImage = CanvasImageSource>(
+  spec: LayoutSpec,
+  images: RenderImages<NoInfer<TImage>>,
+  row: DataRow,
+  createCanvas: CanvasFactory<TImage, TCanvas>,
+): RenderedRow<TCanvas> => {
+  const { background, logo } = images;
+  const layout = resolveLayout(spec, background);
+  const canvas = createCanvas(layout.widthPx, layout.heightPx);
+  const ctx = getContext2d(canvas);
+
+  ctx.fillStyle = spec.backgroundColor;
+  ctx.fillRect(0, 0, layout.widthPx, layout.heightPx);
+  const { x, y, width, height } = layout.background;
+  ctx.drawImage(background, x, y, width, height);
+
+  const elements = layout.elements.map(({ element, rect }): EncodedElement => {
+    const payload = buildPayload(element.payload, row);
+    if (element.type === "barcode") {
+      drawBarcode(ctx, payload, element, rect);
+      return { payload, qrVersion: null };
+    }
+    return { payload, qrVersion: drawQr(ctx, createCanvas, payload, element, rect, logo) };
+  });
+  return { canvas, elements };
+};
@@ -0,0 +1,156 @@
+import type { QrStyle } from "@/lib/render/qr-shapes";
+import type { QrLogo } from "@/lib/render/qr-logo";
+import type { Payload } from "@/lib/render/payload";
+
+// The typed description of a card layout, and the geometry shared by every
+// place that draws one: the export workers, the preview and anything else
+// that needs to know where an element lands on the output image.
+
+export type FitMode = "contain" | "cover" | "stretch";
+
+export type Anchor = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export type QrElement = {
+  type: "qr";
+  // What is encoded, built from the columns of the data row.
+  payload: Payload;
+  sizeCm: number;
+  anchor: Anchor;
+  // Distance from the anchor corner of the visible background, inwards.
+  offsetXCm: number;
+  offsetYCm: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  // CSS hex colours; the light colour may also be "transparent".
+  darkColor: string;
+  lightColor: string;
+  // Light margin around the symbol, in modules, taken from inside sizeCm.
+  quietZoneModules: number;
+  // Paint the light colour over the whole box, quiet zone included, rather
+  // than only behind the symbol itself.
+  knockout: boolean;
+  style: QrStyle;
+  // Placement of the logo image, which is passed to the renderers alongside
+  // the background. Null for a plain code.
+  logo: QrLogo | null;
+};
+
+// Symbologies other than QR, all drawn through bwip-js.
+export type Symbology = "datamatrix" | "gs1datamatrix" | "azteccode" | "pdf417" | "code128" | "gs1-128" | "ean13";
+
+export type BarcodeElement = {
+  type: "barcode";
+  payload: Payload;
+  symbology: Symbology;
+  // The box the code is fitted into. Linear codes fill it; two-dimensional
+  // codes keep their modules square and are centred in it.
+  widthCm: number;
+  heightCm: number;
+  anchor: Anchor;
+  offsetXCm: number;
+  offsetYCm: number;
+  darkColor: string;
+  lightColor: string;
+  // Light margin around the symbol, in modules. Linear codes only need it
+  // at the sides.
+  quietZoneModules: number;
+  knockout: boolean;
+  // Print the encoded text under linear codes.
+  humanReadable: boolean;
+};
+
+export type LayoutElement = QrElement | BarcodeElement;
+
+export type LayoutSpec = {
+  widthCm: number;
+  heightCm: number;
+  dpi: number;
+  // How the background image is fitted into the canvas.
+  fit: FitMode;
+  // Fills whatever the background image leaves uncovered.
+  backgroundColor: string;
+  elements: LayoutElement[];
+};
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ResolvedLayout = {
+  widthPx: number;
+  heightPx: number;
+  // Where the background image is drawn; may extend past the canvas for "cover".
+  background: Rect;
+  elements: { element: LayoutElement; rect: Rect }[];
+};
+
+export const cmToPx = (cm: number, dpi: number) => Math.round((cm / 2.54) * dpi);
+
+export const fitRect = (fit: FitMode, source: { width: number; height: number }, width: number, height: number): Rect => {
+  if (fit === "stretch") return { x: 0, y: 0, width, height };
+
+  const canvasAspectRatio = width / height;
+  const imageAspectRatio = source.width / source.height;
+  // "contain" fits the wider side, "cover" the narrower one.
+  const matchWidth = (imageAspectRatio > canvasAspectRatio) === (fit === "contain");
+
+  const drawWidth = matchWidth ? width : height * imageAspectRatio;
+  const drawHeight = matchWidth ? width / imageAspectRatio : height;
+  return {
+    x: (width - drawWidth) / 2,
+    y: (height - drawHeight) / 2,
+    width: drawWidth,
+    height: drawHeight,
+  };
+};
+
+const intersect = (a: Rect, b: Rect): Rect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.min(a.x + a.width, b.x + b.width) - x,
+    height: Math.min(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+// QR codes are always square; other codes have their own box.
+export const elementSizeCm = (element: LayoutElement) =>
+  element.type === "qr"
+    ? { widthCm: element.sizeCm, heightCm: element.sizeCm }
+    : { widthCm: element.widthCm, heightCm: element.heightCm };
+
+const placeElement = (element: LayoutElement, box: Rect, dpi: number): Rect => {
+  const { widthCm, heightCm } = elementSizeCm(element);
+  const width = cmToPx(widthCm, dpi);
+  const height = cmToPx(heightCm, dpi);
+  const offsetX = cmToPx(element.offsetXCm, dpi);
+  const offsetY = cmToPx(element.offsetYCm, dpi);
+  const [vertical, horizontal] = element.anchor.split("-");
+
+  return {
+    x: horizontal === "left" ? box.x + offsetX : box.x + box.width - width - offsetX,
+    y: vertical === "top" ? box.y + offsetY : box.y + box.height - height - offsetY,
+    width,
+    height,
+  };
+};
+
+export const resolveLayout = (spec: LayoutSpec, backgroundSize: { width: number; height: number }): ResolvedLayout => {
+  const widthPx = cmToPx(spec.widthCm, spec.dpi);
+  const heightPx = cmToPx(spec.heightCm, spec.dpi);
+  const background = fitRect(spec.fit, backgroundSize, widthPx, heightPx);
+  const visible = intersect(background, { x: 0, y: 0, width: widthPx, height: heightPx });
+
+  return {
+    widthPx,
+    heightPx,
+    background,
+    elements: spec.elements.map(element => ({ element, rect: placeElement(element, visible, spec.dpi) })),
+  };
+};
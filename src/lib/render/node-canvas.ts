@@ -0,0 +1,10 @@
+import { createCanvas, type Canvas, type Image } from "@napi-rs/canvas";
+import type { CanvasFactory } from "@/lib/render/canvas";
+
+// Canvases for running the render core under Node, as the golden-image
+// tests do. @napi-rs/canvas draws with Skia, like Chromium, so cards come
+// out close to what the export workers make.
+
+export type NodeImage = Canvas | Image;
+
+export const createNodeCanvas: CanvasFactory<NodeImage, Canvas> = (width, height) => createCanvas(width, height);
@@ -0,0 +1,297 @@
+import type { DataRow } from "@/lib/render";
+
+// What a code encodes for a row. A plain link is taken from one column;
+// the other types are assembled from several, in the formats phone cameras
+// recognise: contact cards, Wi-Fi logins, messages, places and events.
+
+export type PayloadType = "link" | "vcard" | "mecard" | "wifi" | "email" | "sms" | "tel" | "geo" | "event";
+
+export type Payload = {
+  type: PayloadType;
+  // The column each field of the type is read from. Unmapped optional
+  // fields are left out.
+  columns: Record<string, string>;
+};
+
+export type PayloadField = {
+  key: string;
+  label: string;
+  required: boolean;
+  // Headers that are picked for the field when a file is loaded.
+  aliases: string[];
+  // Failing a header match, the first column whose values look like this.
+  pattern?: RegExp;
+};
+
+type PayloadTypeInfo = {
+  label: string;
+  fields: PayloadField[];
+  // Values shown in the preview before a file is loaded.
+  sample: Record<string, string>;
+  // Builds the encoded text from the mapped values, which are trimmed and
+  // empty when missing. Throws when a value is invalid.
+  build: (values: Record<string, string>) => string;
+};
+
+const field = (key: string, label: string, required: boolean, aliases: string[] = [], pattern?: RegExp): PayloadField =>
+  ({ key, label, required, aliases: [key, label, ...aliases], pattern });
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9 ()./-]{3,}$/;
+const COORDINATE_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const checkEmail = (email: string) => {
+  if (email && !EMAIL_PATTERN.test(email)) throw new Error(`'${email}' is not an email address`);
+  return email;
+};
+
+const checkPhone = (phone: string) => {
+  if (phone && !PHONE_PATTERN.test(phone)) throw new Error(`'${phone}' is not a phone number`);
+  return phone;
+};
+
+// URIs take the number without the spaces and punctuation people write it with.
+const dialString = (phone: string) => checkPhone(phone).replace(/[ ()./-]/g, "");
+
+// Backslash escapes for the reserved characters of each format.
+const escapeWith = (chars: RegExp) => (value: string) => value.replace(chars, c => `\\${c}`);
+const escapeMeCard = escapeWith(/[\\;,:]/g);
+const escapeWifi = escapeWith(/[\\;,:"]/g);
+// vCard and iCalendar text, where line breaks become "\n" as well.
+const escapeText = (value: string) => escapeWith(/[\\;,]/g)(value).replace(/\r?\n/g, "\\n");
+
+// Both formats call for CRLF line endings.
+const lines = (entries: (string | false)[]) => entries.filter(Boolean).join("\r\n");
+
+const query = (params: Record<string, string>) => {
+  const pairs = Object.entries(params).filter(([, value]) => value);
+  return pairs.length > 0 ? `?${pairs.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&")}` : "";
+};
+
+const buildVCard = (v: Record<string, string>) => {
+  const name = [v.firstName, v.lastName].filter(Boolean).join(" ");
+  if (!name && !v.organization) throw new Error("A contact needs a name or an organisation");
+  return lines([
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `N:${escapeText(v.lastName)};${escapeText(v.firstName)};;;`,
+    `FN:${escapeText(name || v.organization)}`,
+    !!v.organization && `ORG:${escapeText(v.organization)}`,
+    !!v.title && `TITLE:${escapeText(v.title)}`,
+    !!v.phone && `TEL:${escapeText(checkPhone(v.phone))}`,
+    !!v.email && `EMAIL:${escapeText(checkEmail(v.email))}`,
+    !!v.website && `URL:${escapeText(v.website)}`,
+    !!v.address && `ADR:;;${escapeText(v.address)};;;;`,
+    "END:VCARD",
+  ]);
+};
+
+const buildMeCard = (v: Record<string, string>) => {
+  if (!v.firstName && !v.lastName) throw new Error("A contact needs a name");
+  const parts = [
+    `N:${[v.lastName, v.firstName].filter(Boolean).map(escapeMeCard).join(",")}`,
+    v.phone && `TEL:${escapeMeCard(dialString(v.phone))}`,
+    v.email && `EMAIL:${escapeMeCard(checkEmail(v.email))}`,
+    v.website && `URL:${escapeMeCard(v.website)}`,
+    v.address && `ADR:${escapeMeCard(v.address)}`,
+  ];
+  return `MECARD:${parts.filter(Boolean).join(";")};;`;
+};
+
+// Accepts the security types as routers and spreadsheets tend to write them.
+const wifiSecurity = (security: string, password: string) => {
+  const value = security.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (!value) return password ? "WPA" : "nopass";
+  if (["NONE", "NOPASS", "OPEN"].includes(value)) return "nopass";
+  if (value === "WEP") return "WEP";
+  if (value.startsWith("WPA")) return "WPA";
+  throw new Error(`Unknown Wi-Fi security '${security}'; use WPA, WEP or none`);
+};
+
+const buildWifi = (v: Record<string, string>) => {
+  const security = wifiSecurity(v.security, v.password);
+  if (security !== "nopass" && !v.password) throw new Error(`${security} networks need a password`);
+  const hidden = /^(true|yes|y|1)$/i.test(v.hidden);
+  return `WIFI:T:${security};S:${escapeWifi(v.ssid)};${security !== "nopass" ? `P:${escapeWifi(v.password)};` : ""}${hidden ? "H:true;" : ""};`;
+};
+
+const buildGeo = (v: Record<string, string>) => {
+  const coordinate = (value: string, label: string, limit: number) => {
+    if (!COORDINATE_PATTERN.test(value) || Math.abs(Number(value)) > limit) {
+      throw new Error(`'${value}' is not a ${label} between -${limit} and ${limit}`);
+    }
+    return value;
+  };
+  if (v.altitude && !COORDINATE_PATTERN.test(v.altitude)) throw new Error(`'${v.altitude}' is not an altitude in metres`);
+  return `geo:${coordinate(v.latitude, "latitude", 90)},${coordinate(v.longitude, "longitude", 180)}${v.altitude ? `,${v.altitude}` : ""}`;
+};
+
+// Event times are written as dates ("2025-06-01") for all-day events, or
+// as local date-times ("2025-06-01 18:30", or ISO with an optional Z for UTC).
+const eventTime = (value: string) => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(Z)?)?$/);
+  const [, year, month, day, hour, minute, second = "00", utc = ""] = match ?? [];
+  // Out-of-range parts roll over into the next unit, so they show up as a
+  // different date and time when read back.
+  const date = match && new Date(Date.UTC(+year, +month - 1, +day, +(hour ?? 0), +(minute ?? 0), +second));
+  const isValid = date && date.getUTCMonth() === +month - 1 && date.getUTCDate() === +day
+    && date.getUTCHours() === +(hour ?? 0) && date.getUTCMinutes() === +(minute ?? 0) && date.getUTCSeconds() === +second;
+  if (!isValid) {
+    throw new Error(`'${value}' is not a date (YYYY-MM-DD) or date and time (YYYY-MM-DD HH:MM)`);
+  }
+  const allDay = hour === undefined;
+  return { allDay, value: `${year}${month}${day}${allDay ? "" : `T${hour}${minute}${second}${utc}`}` };
+};
+
+const buildEvent = (v: Record<string, string>) => {
+  const start = eventTime(v.start);
+  const end = v.end ? eventTime(v.end) : null;
+  if (end && end.allDay !== start.allDay) throw new Error("The start and end must both be dates, or both have a time");
+  if (end && end.value < start.value) throw new Error("The event ends before it starts");
+  const property = (name: string, time: { allDay: boolean; value: string }) =>
+    `${name}${time.allDay ? ";VALUE=DATE" : ""}:${time.value}`;
+  return lines([
+    "BEGIN:VEVENT",
+    `SUMMARY:${escapeText(v.summary)}`,
+    property("DTSTART", start),
+    !!end && property("DTEND", end),
+    !!v.location && `LOCATION:${escapeText(v.location)}`,
+    !!v.description && `DESCRIPTION:${escapeText(v.description)}`,
+    "END:VEVENT",
+  ]);
+};
+
+export const PAYLOAD_TYPES: Record<PayloadType, PayloadTypeInfo> = {
+  link: {
+    label: "Link",
+    fields: [field("url", "Link", true, ["links", "link", "uri", "tracking url", "web address"], /^[a-z][a-z0-9+.-]*:\S+$/i)],
+    sample: { url: "https://example.com/?id=sample" },
+    build: v => v.url,
+  },
+  vcard: {
+    label: "Contact (vCard)",
+    fields: [
+      field("firstName", "First name", false, ["first", "given name"]),
+      field("lastName", "Last name", false, ["last", "surname", "family name"]),
+      field("organization", "Organisation", false, ["organization", "company"]),
+      field("title", "Job title", false, ["title", "position"]),
+      field("phone", "Phone", false, ["tel", "telephone", "mobile"]),
+      field("email", "Email", false, ["e-mail", "mail"]),
+      field("website", "Website", false, ["url", "web"]),
+      field("address", "Address", false, ["street"]),
+    ],
+    sample: { firstName: "Ada", lastName: "Lovelace", organization: "Example Ltd", phone: "+44 20 7946 0000", email: "ada@example.com" },
+    build: buildVCard,
+  },
+  mecard: {
+    label: "Contact (MeCard)",
+    fields: [
+      field("firstName", "First name", false, ["first", "given name"]),
+      field("lastName", "Last name", false, ["last", "surname", "family name"]),
+      field("phone", "Phone", false, ["tel", "telephone", "mobile"]),
+      field("email", "Email", false, ["e-mail", "mail"]),
+      field("website", "Website", false, ["url", "web"]),
+      field("address", "Address", false, ["street"]),
+    ],
+    sample: { firstName: "Ada", lastName: "Lovelace", phone: "+44 20 7946 0000", email: "ada@example.com" },
+    build: buildMeCard,
+  },
+  wifi: {
+    label: "Wi-Fi network",
+    fields: [
+      field("ssid", "Network name", true, ["ssid", "network", "wifi"]),
+      field("password", "Password", false, ["pass", "key"]),
+      field("security", "Security", false, ["encryption", "auth"]),
+      field("hidden", "Hidden", false),
+    ],
+    sample: { ssid: "Guest", password: "welcome123" },
+    build: buildWifi,
+  },
+  email: {
+    label: "Email",
+    fields: [
+      field("to", "To", true, ["email", "e-mail", "mail", "address"]),
+      field("subject", "Subject", false),
+      field("body", "Message", false, ["body", "text"]),
+    ],
+    sample: { to: "hello@example.com", subject: "Hello" },
+    build: v => `mailto:${checkEmail(v.to)}${query({ subject: v.subject, body: v.body })}`,
+  },
+  sms: {
+    label: "Text message",
+    fields: [
+      field("phone", "Phone", true, ["tel", "telephone", "mobile", "number"]),
+      field("message", "Message", false, ["body", "text", "sms"]),
+    ],
+    sample: { phone: "+44 7700 900000", message: "Hello" },
+    build: v => `sms:${dialString(v.phone)}${query({ body: v.message })}`,
+  },
+  tel: {
+    label: "Phone call",
+    fields: [field("phone", "Phone", true, ["tel", "telephone", "mobile", "number"])],
+    sample: { phone: "+44 20 7946 0000" },
+    build: v => `tel:${dialString(v.phone)}`,
+  },
+  geo: {
+    label: "Location",
+    fields: [
+      field("latitude", "Latitude", true, ["lat"]),
+      field("longitude", "Longitude", true, ["lon", "lng", "long"]),
+      field("altitude", "Altitude", false, ["alt", "elevation"]),
+    ],
+    sample: { latitude: "51.5074", longitude: "-0.1278" },
+    build: buildGeo,
+  },
+  event: {
+    label: "Calendar event",
+    fields: [
+      field("summary", "Title", true, ["event", "name"]),
+      field("start", "Start", true, ["from", "date", "begin"]),
+      field("end", "End", false, ["to", "until"]),
+      field("location", "Location", false, ["venue", "place"]),
+      field("description", "Description", false, ["details", "notes"]),
+    ],
+    sample: { summary: "Open day", start: "2025-06-01 10:00", end: "2025-06-01 16:00", location: "Main hall" },
+    build: buildEvent,
+  },
+};
+
+const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Maps each field of a type onto the first header that looks like it, or
+// else onto the first column whose values in the first few rows fit the
+// field's pattern.
+export const guessColumns = (type: PayloadType, headers: string[], rows: DataRow[] = []): Record<string, string> => {
+  const columns: Record<string, string> = {};
+  const sample = rows.slice(0, 5);
+  for (const { key, aliases, pattern } of PAYLOAD_TYPES[type].fields) {
+    const names = aliases.map(normalize);
+    const header = headers.find(h => names.includes(normalize(h)))
+      ?? (pattern && sample.length > 0
+        ? headers.find(h => sample.every(row => pattern.test(row[h]?.trim() ?? "")))
+        : undefined);
+    if (header) columns[key] = header;
+  }
+  return columns;
+};
+
+// A row holding the sample values under the mapped columns, for the preview.
+export const samplePayloadRow = (payload: Payload): DataRow => {
+  const { sample } = PAYLOAD_TYPES[payload.type];
+  return Object.fromEntries(Object.entries(sample).map(([key, value]) => [payload.columns[key] ?? key, value]));
+};
+
+// The text to encode for a row. Throws with a message fit for the user when
+// a required value is missing or a value doesn't fit its format.
+export const buildPayload = (payload: Payload, row: DataRow) => {
+  const { fields, build } = PAYLOAD_TYPES[payload.type];
+  const values: Record<string, string> = {};
+  for (const { key, label, required } of fields) {
+    const column = payload.columns[key];
+    const value = column ? row[column]?.trim() ?? "" : "";
+    if (required && !column) throw new Error(`No column is chosen for ${label.toLowerCase()}`);
+    if (required && !value) throw new Error(`Row has no value in the '${column}' column`);
+    values[key] = value;
+  }
+  return build(values);
+};
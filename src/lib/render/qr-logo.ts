@@ -0,0 +1,115 @@
+import type { ErrorCorrectionLevel, Rect } from "@/lib/render/layout";
+import { roundedRect, type PathCommand } from "@/lib/render/qr-shapes";
+
+// A logo in the middle of a QR code hides the modules under it, which the
+// reader has to recover through error correction. Everything here is in
+// module units from the top-left of the symbol, like the QR outlines.
+
+export type LogoShape = "none" | "square" | "rounded" | "circle";
+
+export type QrLogo = {
+  // Side of the area set aside for the logo, as a fraction of the symbol.
+  sizeRatio: number;
+  // Space kept clear between the logo and the edge of its area.
+  paddingModules: number;
+  // Backing plate in the light colour, with the modules under it removed.
+  // "none" draws the logo straight over the modules.
+  shape: LogoShape;
+};
+
+export type LogoArea = {
+  x: number;
+  y: number;
+  size: number;
+  shape: LogoShape;
+};
+
+// Share of the codewords each level can restore.
+const RECOVERY: Record<ErrorCorrectionLevel, number> = { L: 0.07, M: 0.15, Q: 0.25, H: 0.3 };
+
+// A logo square cuts through more codewords than its area alone suggests,
+// and print defects and glare need some of the recovery budget too.
+const SAFETY_FACTOR = 0.4;
+
+// Finders with their separators, plus the timing row and column, must stay
+// clear for a reader to locate the code at all.
+const RESERVED_EDGE = 8;
+
+export const MIN_LOGO_RATIO = 0.1;
+
+// Roughly the modules left for data and error correction once the function
+// patterns (finders, timing, alignment, format and version info) are taken.
+const dataModules = (version: number) => {
+  const size = 17 + 4 * version;
+  const alignments = version === 1 ? 0 : (Math.floor(version / 7) + 2) ** 2 - 3;
+  const versionInfo = version >= 7 ? 36 : 0;
+  return size * size - 3 * 64 - 2 * (size - 2 * RESERVED_EDGE) - 25 * alignments - 31 - versionInfo;
+};
+
+// Keeps a side odd, so a symbol (which always has an odd size) centres it on
+// whole modules.
+const floorOdd = (value: number) => Math.max(0, Math.floor((value - 1) / 2) * 2 + 1);
+
+// Largest logo side, in modules, that a code of this version can lose.
+const maxLogoSide = (version: number, level: ErrorCorrectionLevel) => {
+  const size = 17 + 4 * version;
+  const budget = dataModules(version) * RECOVERY[level] * SAFETY_FACTOR;
+  return floorOdd(Math.min(Math.sqrt(budget), size - 2 * RESERVED_EDGE));
+};
+
+// The largest size ratio that stays safe for every version in the range.
+export const maxLogoRatio = (level: ErrorCorrectionLevel, minVersion: number, maxVersion: number) => {
+  let ratio = Infinity;
+  for (let version = minVersion; version <= maxVersion; version++) {
+    ratio = Math.min(ratio, maxLogoSide(version, level) / (17 + 4 * version));
+  }
+  return ratio;
+};
+
+// Snaps the logo to whole modules in the centre of the symbol, shrinking it
+// to the safe size for this version if it's larger. Null when nothing is left.
+export const logoArea = (moduleCount: number, level: ErrorCorrectionLevel, logo: QrLogo): LogoArea | null => {
+  const version = (moduleCount - 17) / 4;
+  const size = Math.min(floorOdd(logo.sizeRatio * moduleCount), maxLogoSide(version, level));
+  if (size < 1) return null;
+  const offset = (moduleCount - size) / 2;
+  return { x: offset, y: offset, size, shape: logo.shape };
+};
+
+// Whether a module disappears under the logo plate. A circle clears every
+// module it touches, so none are left half covered at its edge.
+export const isClearedModule = (area: LogoArea, row: number, col: number) => {
+  if (area.shape === "none") return false;
+  if (area.shape !== "circle") {
+    return col >= area.x && col < area.x + area.size && row >= area.y && row < area.y + area.size;
+  }
+  const radius = area.size / 2;
+  const cx = area.x + radius;
+  const cy = area.y + radius;
+  const dx = Math.max(col - cx, 0, cx - (col + 1));
+  const dy = Math.max(row - cy, 0, cy - (row + 1));
+  return dx * dx + dy * dy < radius * radius;
+};
+
+// Outline of the backing plate, or null for a logo drawn without one.
+export const logoPlate = (area: LogoArea): PathCommand[] | null => {
+  if (area.shape === "none") return null;
+  const radius = area.shape === "circle" ? area.size / 2 : area.shape === "rounded" ? area.size * 0.2 : 0;
+  return roundedRect(area.x, area.y, area.size, area.size, radius);
+};
+
+// Where the image goes: inside the padding, keeping its aspect ratio. A
+// circle's inscribed square is used so the corners stay on the plate.
+export const logoImageRect = (area: LogoArea, paddingModules: number, image: { width: number; height: number }): Rect | null => {
+  const inset = area.shape === "circle" ? (area.size * (1 - Math.SQRT1_2)) / 2 : 0;
+  const side = area.size - 2 * (inset + paddingModules);
+  if (side <= 0 || image.width <= 0 || image.height <= 0) return null;
+  const scale = side / Math.max(image.width, image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { x: area.x + (area.size - width) / 2, y: area.y + (area.size - height) / 2, width, height };
+};
+
+// The plate takes the light colour, or white where that's transparent so
+// the logo never sits on busy artwork.
+export const logoPlateColor = (lightColor: string) => lightColor === "transparent" ? "#ffffff" : lightColor;
@@ -0,0 +1,162 @@
+// Outlines of a styled QR symbol, in module units with the origin at the
+// top-left of the symbol. The canvas, PDF and SVG renderers all draw from
+// these, so a style looks the same in every output format.
+
+export type ModuleShape = "square" | "rounded" | "dots";
+
+export type FinderShape = "square" | "rounded" | "circle";
+
+export type QrGradient = {
+  // The dark colour fades into this one along the gradient axis.
+  toColor: string;
+  angleDeg: number;
+};
+
+export type QrStyle = {
+  moduleShape: ModuleShape;
+  // The 7×7 ring and 3×3 centre of the three position markers ("eyes").
+  finderFrame: FinderShape;
+  finderBall: FinderShape;
+  // Solid colour for the eyes; null paints them like the other modules.
+  finderColor: string | null;
+  gradient: QrGradient | null;
+};
+
+export const CLASSIC_STYLE: QrStyle = {
+  moduleShape: "square",
+  finderFrame: "square",
+  finderBall: "square",
+  finderColor: null,
+  gradient: null,
+};
+
+export type PathCommand =
+  | ["M", number, number]
+  | ["L", number, number]
+  | ["C", number, number, number, number, number, number]
+  | ["Z"];
+
+export type QrShapes = {
+  modules: PathCommand[];
+  finders: PathCommand[];
+};
+
+type Matrix = { size: number; get(row: number, col: number): number | boolean };
+
+// Control point distance for approximating a quarter circle with a cubic.
+const KAPPA = 0.5523;
+
+const FINDER_SIZE = 7;
+
+// Plain classic codes are drawn pixel-exact by the raster renderer instead.
+export const isClassicStyle = (style: QrStyle) =>
+  style.moduleShape === "square" && style.finderFrame === "square" && style.finderBall === "square"
+  && style.finderColor === null && style.gradient === null;
+
+// Traces a rounded rectangle clockwise (in y-down space). A radius of half
+// the shorter side gives a circle or a pill.
+export const roundedRect = (x: number, y: number, width: number, height: number, radius: number): PathCommand[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  if (r <= 0) return [["M", x, y], ["L", x + width, y], ["L", x + width, y + height], ["L", x, y + height], ["Z"]];
+  const k = r * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    ["M", x + r, y],
+    ["L", right - r, y],
+    ["C", right - r + k, y, right, y + r - k, right, y + r],
+    ["L", right, bottom - r],
+    ["C", right, bottom - r + k, right - r + k, bottom, right - r, bottom],
+    ["L", x + r, bottom],
+    ["C", x + r - k, bottom, x, bottom - r + k, x, bottom - r],
+    ["L", x, y + r],
+    ["C", x, y + r - k, x + r - k, y, x + r, y],
+    ["Z"],
+  ];
+};
+
+const cornerRadius = (shape: FinderShape, size: number) =>
+  shape === "circle" ? size / 2 : shape === "rounded" ? size * 0.3 : 0;
+
+// Finder patterns sit in three corners; everything else is data.
+const inFinder = (row: number, col: number, size: number) =>
+  (row < FINDER_SIZE && col < FINDER_SIZE)
+  || (row < FINDER_SIZE && col >= size - FINDER_SIZE)
+  || (row >= size - FINDER_SIZE && col < FINDER_SIZE);
+
+const finderShapes = (x: number, y: number, style: QrStyle): PathCommand[] => [
+  // The frame is the outer square with the 5×5 hole cut out; both outlines
+  // are filled with the even-odd rule.
+  ...roundedRect(x, y, 7, 7, cornerRadius(style.finderFrame, 7)),
+  ...roundedRect(x + 1, y + 1, 5, 5, cornerRadius(style.finderFrame, 5)),
+  ...roundedRect(x + 2, y + 2, 3, 3, cornerRadius(style.finderBall, 3)),
+];
+
+// `isCleared` drops modules that something else (such as a logo) is drawn over.
+export const buildQrShapes = (
+  matrix: Matrix,
+  style: QrStyle,
+  isCleared: (row: number, col: number) => boolean = () => false,
+): QrShapes => {
+  const { size } = matrix;
+  const modules: PathCommand[] = [];
+  const isData = (row: number, col: number) => !!matrix.get(row, col) && !inFinder(row, col, size) && !isCleared(row, col);
+
+  for (let row = 0; row < size; row++) {
+    let col = 0;
+    while (col < size) {
+      if (!isData(row, col)) {
+        col++;
+        continue;
+      }
+      if (style.moduleShape === "square") {
+        // Merge horizontal runs to keep the outline small.
+        const start = col;
+        while (col < size && isData(row, col)) col++;
+        modules.push(...roundedRect(start, row, col - start, 1, 0));
+        continue;
+      }
+      modules.push(...(style.moduleShape === "dots"
+        ? roundedRect(col + 0.05, row + 0.05, 0.9, 0.9, 0.45)
+        : roundedRect(col, row, 1, 1, 0.35)));
+      col++;
+    }
+  }
+
+  const finders = [
+    ...finderShapes(0, 0, style),
+    ...finderShapes(size - FINDER_SIZE, 0, style),
+    ...finderShapes(0, size - FINDER_SIZE, style),
+  ];
+  return { modules, finders };
+};
+
+// Endpoints of a gradient axis through the centre of the symbol, in module
+// units.
+export const gradientLine = (size: number, angleDeg: number) => {
+  const angle = (angleDeg * Math.PI) / 180;
+  const dx = (Math.cos(angle) * size) / 2;
+  const dy = (Math.sin(angle) * size) / 2;
+  const c = size / 2;
+  return { x1: c - dx, y1: c - dy, x2: c + dx, y2: c + dy };
+};
+
+export const STYLE_PRESETS: Record<string, { label: string; style: QrStyle }> = {
+  classic: { label: "Classic", style: CLASSIC_STYLE },
+  rounded: {
+    label: "Rounded",
+    style: { moduleShape: "rounded", finderFrame: "rounded", finderBall: "rounded", finderColor: null, gradient: null },
+  },
+  dots: {
+    label: "Dots",
+    style: { moduleShape: "dots", finderFrame: "rounded", finderBall: "circle", finderColor: null, gradient: null },
+  },
+  bubbles: {
+    label: "Bubbles",
+    style: { moduleShape: "dots", finderFrame: "circle", finderBall: "circle", finderColor: null, gradient: null },
+  },
+  sunset: {
+    label: "Sunset gradient",
+    style: { moduleShape: "rounded", finderFrame: "rounded", finderBall: "circle", finderColor: null, gradient: { toColor: "#c2410c", angleDeg: 45 } },
+  },
+};
@@ -0,0 +1,115 @@
+import QRCode from "qrcode";
+import { getContext2d, tracePath, type CanvasFactory, type ImageSource, type RenderContext } from "@/lib/render/canvas";
+import type { QrElement, Rect } from "@/lib/render/layout";
+import { buildQrShapes, gradientLine, isClassicStyle } from "@/lib/render/qr-shapes";
+import { isClearedModule, logoArea, logoImageRect, logoPlate, logoPlateColor, type LogoArea } from "@/lib/render/qr-logo";
+
+export const createQrMatrix = (text: string, element: QrElement) =>
+  QRCode.create(text, { errorCorrectionLevel: element.errorCorrectionLevel }).modules;
+
+// Symbols grow by four modules a side with each version, from 21 at version 1.
+const versionOf = (size: number) => (size - 17) / 4;
+
+export const isTransparent = (color: string) => color === "transparent";
+
+// Splits an element's box into the quiet zone and the symbol inside it.
+// `light` is the area painted in the light colour, or null when it's
+// transparent and the artwork shows through. `logo` is in module units.
+export const qrGeometry = (text: string, element: QrElement, box: Rect) => {
+  const modules = createQrMatrix(text, element);
+  const moduleSize = box.width / (modules.size + 2 * element.quietZoneModules);
+  const inset = element.quietZoneModules * moduleSize;
+  const symbol: Rect = {
+    x: box.x + inset,
+    y: box.y + inset,
+    width: modules.size * moduleSize,
+    height: modules.size * moduleSize,
+  };
+  const light = isTransparent(element.lightColor) ? null : element.knockout ? box : symbol;
+  const logo = element.logo ? logoArea(modules.size, element.errorCorrectionLevel, element.logo) : null;
+  return { modules, version: versionOf(modules.size), moduleSize, symbol, light, logo };
+};
+
+// Modules hidden under the logo plate, for leaving out of the code.
+export const clearedBy = (logo: LogoArea | null) =>
+  logo ? (row: number, col: number) => isClearedModule(logo, row, col) : undefined;
+
+// Draws the plate and the logo image in module space. Without an image
+// (as in a layout preview) only the plate is drawn.
+const drawLogo = <TImage>(ctx: RenderContext<TImage>, area: LogoArea, element: QrElement, image: ImageSource<TImage> | null) => {
+  const plate = logoPlate(area);
+  if (plate) {
+    tracePath(ctx, plate);
+    ctx.fillStyle = logoPlateColor(element.lightColor);
+    ctx.fill();
+  }
+  const rect = image && logoImageRect(area, element.logo?.paddingModules ?? 0, image);
+  if (image && rect) {
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+  }
+};
+
+// Draws the matrix at one pixel per module and scales it up with smoothing
+// disabled, which keeps module edges crisp at any output size. Styled codes
+// are drawn from their outlines instead. Returns the symbol's version.
+export const drawQr = <TImage>(
+  ctx: RenderContext<TImage>,
+  createCanvas: CanvasFactory<TImage>,
+  text: string,
+  element: QrElement,
+  rect: Rect,
+  logoImage: ImageSource<TImage> | null = null,
+) => {
+  const { modules, version, moduleSize, symbol, light, logo } = qrGeometry(text, element, rect);
+  const isCleared = clearedBy(logo);
+
+  ctx.save();
+  if (light) {
+    ctx.fillStyle = element.lightColor;
+    ctx.fillRect(light.x, light.y, light.width, light.height);
+  }
+
+  if (isClassicStyle(element.style)) {
+    const matrix = createCanvas(modules.size, modules.size);
+    const matrixCtx = getContext2d(matrix);
+    matrixCtx.fillStyle = element.darkColor;
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col) && !isCleared?.(row, col)) matrixCtx.fillRect(col, row, 1, 1);
+      }
+    }
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(matrix, symbol.x, symbol.y, symbol.width, symbol.height);
+    if (logo) {
+      ctx.translate(symbol.x, symbol.y);
+      ctx.scale(moduleSize, moduleSize);
+      drawLogo(ctx, logo, element, logoImage);
+    }
+    ctx.restore();
+    return version;
+  }
+
+  const { style } = element;
+  const shapes = buildQrShapes(modules, style, isCleared);
+  ctx.translate(symbol.x, symbol.y);
+  ctx.scale(moduleSize, moduleSize);
+
+  let fill: string | CanvasGradient = element.darkColor;
+  if (style.gradient) {
+    const { x1, y1, x2, y2 } = gradientLine(modules.size, style.gradient.angleDeg);
+    fill = ctx.createLinearGradient(x1, y1, x2, y2);
+    fill.addColorStop(0, element.darkColor);
+    fill.addColorStop(1, style.gradient.toColor);
+  }
+
+  tracePath(ctx, shapes.modules);
+  ctx.fillStyle = fill;
+  ctx.fill("evenodd");
+  tracePath(ctx, shapes.finders);
+  ctx.fillStyle = style.finderColor ?? fill;
+  ctx.fill("evenodd");
+  if (logo) drawLogo(ctx, logo, element, logoImage);
+  ctx.restore();
+  return version;
+};
\ No newline at end of file
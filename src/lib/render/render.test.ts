@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { loadImage, type Canvas } from "@napi-rs/canvas";
+import {
+  CLASSIC_STYLE,
+  STYLE_PRESETS,
+  renderRow,
+  resolveLayout,
+  type Anchor,
+  type BarcodeElement,
+  type FitMode,
+  type LayoutElement,
+  type LayoutSpec,
+  type QrElement,
+  type RenderedRow,
+  type Symbology,
+} from "@/lib/render";
+import { createNodeCanvas } from "@/lib/render/node-canvas";
+
+// Cards are compared with the PNGs in golden/. After a deliberate change
+// to how cards look, check the new images and commit them:
+//
+//   UPDATE_GOLDEN=1 npm test
+
+const GOLDEN_DIR = join(__dirname, "golden");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+// Antialiased edges may shift slightly between Skia builds, so a few
+// pixels are allowed to differ by more than a rounding error.
+const CHANNEL_TOLERANCE = 16;
+const MAX_DIFFERENT_PIXELS = 0.002;
+
+// Four coloured quadrants in a frame, twice as wide as tall, so every fit
+// mode leaves a different part of it on the card.
+const createBackground = () => {
+  const canvas = createNodeCanvas(400, 200);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#1e3a8a";
+  ctx.fillRect(0, 0, 400, 200);
+  const quadrants: [string, number, number][] = [["#fca5a5", 10, 10], ["#86efac", 200, 10], ["#93c5fd", 10, 100], ["#fde047", 200, 100]];
+  for (const [color, x, y] of quadrants) {
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, 190, 90);
+  }
+  return canvas;
+};
+
+const createLogo = () => {
+  const canvas = createNodeCanvas(40, 40);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#be123c";
+  ctx.beginPath();
+  ctx.arc(20, 20, 18, 0, 2 * Math.PI);
+  ctx.fill();
+  return canvas;
+};
+
+const images = { background: createBackground(), logo: createLogo() };
+
+const row = { links: "https://example.com/?id=42", code: "SAMPLE-0042", ean: "590123412345" };
+
+const qr = (changes: Partial<QrElement> = {}): QrElement => ({
+  type: "qr",
+  payload: { type: "link", columns: { url: "links" } },
+  sizeCm: 2,
+  anchor: "top-left",
+  offsetXCm: 0.3,
+  offsetYCm: 0.3,
+  errorCorrectionLevel: "M",
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+  quietZoneModules: 2,
+  knockout: true,
+  style: CLASSIC_STYLE,
+  logo: null,
+  ...changes,
+});
+
+const barcode = (symbology: Symbology, changes: Partial<BarcodeElement> = {}): BarcodeElement => ({
+  type: "barcode",
+  payload: { type: "link", columns: { url: symbology === "ean13" ? "ean" : "code" } },
+  symbology,
+  widthCm: 3.5,
+  heightCm: 1.5,
+  anchor: "bottom-right",
+  offsetXCm: 0.3,
+  offsetYCm: 0.3,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+  quietZoneModules: 2,
+  knockout: true,
+  humanReadable: true,
+  ...changes,
+});
+
+const spec = (elements: LayoutElement[], fit: FitMode = "contain"): LayoutSpec => ({
+  widthCm: 6,
+  heightCm: 4,
+  dpi: 100,
+  fit,
+  backgroundColor: "#f5f5f4",
+  elements,
+});
+
+const pixels = (canvas: Canvas) => canvas.getContext("2d").getImageData(0, 0, canvas.width, canvas.height).data;
+
+const matchesGolden = async (name: string, { canvas }: RenderedRow<Canvas>) => {
+  const path = join(GOLDEN_DIR, `${name}.png`);
+  if (UPDATE) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(path, canvas.toBuffer("image/png"));
+    return;
+  }
+
+  const golden = await loadImage(readFileSync(path));
+  assert.deepEqual([canvas.width, canvas.height], [golden.width, golden.height], `${name} has the wrong size`);
+  const expected = createNodeCanvas(golden.width, golden.height);
+  expected.getContext("2d").drawImage(golden, 0, 0, golden.width, golden.height);
+
+  const [actualData, expectedData] = [pixels(canvas), pixels(expected)];
+  let different = 0;
+  for (let i = 0; i < actualData.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(actualData[i + channel] - expectedData[i + channel]) > CHANNEL_TOLERANCE) {
+        different++;
+        break;
+      }
+    }
+  }
+  if (different > MAX_DIFFERENT_PIXELS * canvas.width * canvas.height) {
+    const actualPath = join(tmpdir(), `${name}.actual.png`);
+    writeFileSync(actualPath, canvas.toBuffer("image/png"));
+    assert.fail(`${name} differs from its golden image in ${different} pixels; the new image is at ${actualPath}`);
+  }
+};
+
+describe("resolveLayout", () => {
+  const background = { width: 400, height: 200 };
+
+  test("fits the background by each fit mode", () => {
+    const rects = Object.fromEntries((["contain", "cover", "stretch"] as FitMode[]).map(fit => [fit, resolveLayout(spec([], fit), background).background]));
+    assert.deepEqual(rects.contain, { x: 0, y: (157 - 118) / 2, width: 236, height: 118 });
+    assert.deepEqual(rects.cover, { x: (236 - 314) / 2, y: 0, width: 314, height: 157 });
+    assert.deepEqual(rects.stretch, { x: 0, y: 0, width: 236, height: 157 });
+  });
+
+  test("places elements from their anchor corner of the visible background", () => {
+    const anchors: Anchor[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+    const layout = resolveLayout(spec(anchors.map(anchor => qr({ anchor, sizeCm: 1, offsetXCm: 0.5, offsetYCm: 0.2 }))), background);
+    // 1 cm is 39 px, 0.5 cm is 20 px and 0.2 cm is 8 px at 100 DPI; the
+    // contained background runs from y = 19.5 to 137.5.
+    assert.deepEqual(layout.elements.map(({ rect }) => [rect.x, rect.y]), [
+      [20, 27.5],
+      [236 - 39 - 20, 27.5],
+      [20, 137.5 - 39 - 8],
+      [236 - 39 - 20, 137.5 - 39 - 8],
+    ]);
+    assert.ok(layout.elements.every(({ rect }) => rect.width === 39 && rect.height === 39));
+  });
+
+  test("gives barcodes their own box", () => {
+    const [{ rect }] = resolveLayout(spec([barcode("code128")], "stretch"), background).elements;
+    assert.deepEqual(rect, { x: 236 - 138 - 12, y: 157 - 59 - 12, width: 138, height: 59 });
+  });
+});
+
+describe("renderRow", () => {
+  for (const fit of ["contain", "cover", "stretch"] as FitMode[]) {
+    test(`fit ${fit}`, () => matchesGolden(`fit-${fit}`, renderRow(spec([qr()], fit), images, row, createNodeCanvas)));
+  }
+
+  for (const anchor of ["top-left", "top-right", "bottom-left", "bottom-right"] as Anchor[]) {
+    test(`anchor ${anchor}`, () =>
+      matchesGolden(`anchor-${anchor}`, renderRow(spec([qr({ anchor, sizeCm: 1.5, offsetXCm: 0.4, offsetYCm: 0.2 })]), images, row, createNodeCanvas)));
+  }
+
+  test("styled QR code with a logo", () => {
+    const styled = qr({
+      sizeCm: 3,
+      errorCorrectionLevel: "H",
+      style: { ...STYLE_PRESETS.sunset.style, finderColor: "#1e3a8a" },
+      logo: { sizeRatio: 0.25, paddingModules: 1, shape: "rounded" },
+    });
+    return matchesGolden("qr-styled-logo", renderRow(spec([styled], "cover"), images, row, createNodeCanvas));
+  });
+
+  test("QR code on a transparent light colour", () =>
+    matchesGolden("qr-transparent", renderRow(spec([qr({ lightColor: "transparent", darkColor: "#7c2d12" })], "cover"), images, row, createNodeCanvas)));
+
+  for (const symbology of ["code128", "ean13", "datamatrix", "pdf417"] as Symbology[]) {
+    test(`barcode ${symbology}`, () =>
+      matchesGolden(`barcode-${symbology}`, renderRow(spec([barcode(symbology)], "stretch"), images, row, createNodeCanvas)));
+  }
+
+  test("several elements on one card", () =>
+    matchesGolden("elements-mixed", renderRow(spec([qr(), barcode("code128", { knockout: false, lightColor: "transparent" })], "cover"), images, row, createNodeCanvas)));
+
+  test("reports what each element encodes", () => {
+    const { elements } = renderRow(spec([qr(), barcode("ean13"), qr({ errorCorrectionLevel: "H" })]), images, row, createNodeCanvas);
+    assert.deepEqual(elements, [
+      { payload: "https://example.com/?id=42", qrVersion: 2 },
+      { payload: "590123412345", qrVersion: null },
+      { payload: "https://example.com/?id=42", qrVersion: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { cmToPx } from "@/lib/render";
+import { encodeCanvas, type RasterFormat } from "@/lib/encode";
+import { cutMarks, type SheetPlan } from "@/lib/imposition";
+
+// Hairline weight for cut marks, in points.
+const MARK_WIDTH_PT = 0.25;
+
+const mmToPx = (mm: number, dpi: number) => cmToPx(mm / 10, dpi);
+
+// Composites rendered cards onto press sheets. The cards come straight from
+// the workers' canvases, so the sheet is the only thing that gets encoded. One
+// canvas is reused for every sheet, since a sheet at print resolution runs to
+// tens of megabytes.
+export const createSheetImageWriter = (plan: SheetPlan, dpi: number, format: RasterFormat, withCutMarks: boolean) => {
+  const canvas = new OffscreenCanvas(mmToPx(plan.widthMm, dpi), mmToPx(plan.heightMm, dpi));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2D context for the sheet");
+  const marks = withCutMarks ? cutMarks(plan, 0) : [];
+
+  return async (cards: (ImageBitmap | null)[]): Promise<Blob> => {
+    ctx.fillStyle = "white";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    for (const [index, card] of cards.entries()) {
+      const slot = plan.slots[index];
+      if (!card || !slot) continue;
+      const x = mmToPx(slot.x, dpi);
+      const y = mmToPx(slot.y, dpi);
+      const width = mmToPx(slot.width, dpi);
+      const height = mmToPx(slot.height, dpi);
+
+      ctx.save();
+      if (plan.rotated) {
+        ctx.translate(x + width, y);
+        ctx.rotate(Math.PI / 2);
+        ctx.drawImage(card, 0, 0, height, width);
+      } else {
+        ctx.drawImage(card, x, y, width, height);
+      }
+      ctx.restore();
+      card.close();
+    }
+
+    if (marks.length > 0) {
+      ctx.strokeStyle = "black";
+      ctx.lineWidth = Math.max(1, Math.round((MARK_WIDTH_PT / 72) * dpi));
+      ctx.beginPath();
+      for (const mark of marks) {
+        ctx.moveTo(mmToPx(mark.x1, dpi), mmToPx(mark.y1, dpi));
+        ctx.lineTo(mmToPx(mark.x2, dpi), mmToPx(mark.y2, dpi));
+      }
+      ctx.stroke();
+    }
+
+    return encodeCanvas(canvas, format, dpi);
+  };
+};
@@ -0,0 +1,220 @@
+import { openZip, type ZipReader } from "@/lib/zip-reader";
+
+// Reads the cell text of every sheet of an Excel (.xlsx) or OpenDocument
+// (.ods) workbook. Cells come out as they would be typed back in: numbers
+// without float noise, dates as YYYY-MM-DD (with HH:MM when they have a
+// time), booleans as TRUE/FALSE. Formulas give their cached result.
+
+export type SheetGrid = {
+  name: string;
+  // Row-major cell text; rows can be ragged and hold empty strings.
+  cells: string[][];
+};
+
+const RELATIONSHIP_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const OFFICE_NS = "urn:oasis:names:tc:opendocument:xmlns:office:1.0";
+const TABLE_NS = "urn:oasis:names:tc:opendocument:xmlns:table:1.0";
+const TEXT_NS = "urn:oasis:names:tc:opendocument:xmlns:text:1.0";
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("The spreadsheet holds malformed XML");
+  return doc;
+};
+
+// Excel writers differ on namespace prefixes, so elements are found by
+// local name alone.
+const byName = (node: Document | Element, name: string) => Array.from(node.getElementsByTagNameNS("*", name));
+const childrenNamed = (node: Element, name: string) => Array.from(node.children).filter(child => child.localName === name);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatDate = (date: Date) => {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const seconds = date.getUTCSeconds();
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}${seconds ? `:${pad(seconds)}` : ""}`;
+  return time === "00:00" ? day : `${day} ${time}`;
+};
+
+// Excel keeps 15 significant digits; anything past that is binary noise
+// such as 0.30000000000000004.
+const formatNumber = (value: string) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? String(Number(number.toPrecision(15))) : value;
+};
+
+// --- Excel ---
+
+// Built-in number formats that show a date or time.
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+const isDateFormatCode = (code: string) =>
+  /[dmyhs]/i.test(code.replace(/"[^"]*"/g, "").replace(/\[[^\]]*\]/g, "").replace(/\\./g, ""));
+
+const readDateStyles = async (zip: ZipReader) => {
+  if (!zip.has("xl/styles.xml")) return new Set<number>();
+  const doc = parseXml(await zip.readText("xl/styles.xml"));
+  const customDates = new Set(
+    byName(doc, "numFmt")
+      .filter(format => isDateFormatCode(format.getAttribute("formatCode") ?? ""))
+      .map(format => Number(format.getAttribute("numFmtId"))),
+  );
+  const cellXfs = byName(doc, "cellXfs")[0];
+  const styles = cellXfs ? childrenNamed(cellXfs, "xf") : [];
+  const dateStyles = new Set<number>();
+  styles.forEach((xf, index) => {
+    const id = Number(xf.getAttribute("numFmtId") ?? 0);
+    if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+// Phonetic runs (rPh) hold reading hints for East Asian text, not content.
+const stringText = (item: Element) =>
+  byName(item, "t").filter(t => t.parentElement?.localName !== "rPh").map(t => t.textContent ?? "").join("");
+
+const readSharedStrings = async (zip: ZipReader) => {
+  if (!zip.has("xl/sharedStrings.xml")) return [];
+  return byName(parseXml(await zip.readText("xl/sharedStrings.xml")), "si").map(stringText);
+};
+
+const columnIndex = (reference: string) => {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, "").toUpperCase()) index = index * 26 + char.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+const readXlsx = async (zip: ZipReader): Promise<SheetGrid[]> => {
+  const workbook = parseXml(await zip.readText("xl/workbook.xml"));
+  const rels = parseXml(await zip.readText("xl/_rels/workbook.xml.rels"));
+  const targets = new Map(byName(rels, "Relationship").map(rel => [rel.getAttribute("Id"), rel.getAttribute("Target") ?? ""]));
+  const strings = await readSharedStrings(zip);
+  const dateStyles = await readDateStyles(zip);
+  const properties = byName(workbook, "workbookPr")[0];
+  const is1904 = ["1", "true"].includes(properties?.getAttribute("date1904") ?? "");
+  // Serial day 0 of each date system, in days since the Unix epoch.
+  const epochDays = is1904 ? -24107 : -25569;
+
+  const cellText = (cell: Element) => {
+    const type = cell.getAttribute("t") ?? "n";
+    const value = childrenNamed(cell, "v")[0]?.textContent ?? "";
+    if (type === "s") return strings[Number(value)] ?? "";
+    if (type === "inlineStr") return childrenNamed(cell, "is").map(stringText).join("");
+    if (type === "b") return value === "1" ? "TRUE" : "FALSE";
+    if (type !== "n" || value === "") return value;
+    if (dateStyles.has(Number(cell.getAttribute("s") ?? 0))) {
+      const ms = Math.round((Number(value) + epochDays) * 86400) * 1000;
+      return formatDate(new Date(ms));
+    }
+    return formatNumber(value);
+  };
+
+  const sheets: SheetGrid[] = [];
+  for (const sheet of byName(workbook, "sheet")) {
+    const target = targets.get(sheet.getAttributeNS(RELATIONSHIP_NS, "id"));
+    if (!target) continue;
+    const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    // Chart sheets and the like have no cells.
+    if (!zip.has(path)) continue;
+
+    const cells: string[][] = [];
+    for (const row of byName(parseXml(await zip.readText(path)), "row")) {
+      const rowIndex = Number(row.getAttribute("r") ?? cells.length + 1) - 1;
+      const values: string[] = [];
+      for (const cell of childrenNamed(row, "c")) {
+        const reference = cell.getAttribute("r");
+        const column = reference ? columnIndex(reference) : values.length;
+        while (values.length < column) values.push("");
+        values[column] = cellText(cell);
+      }
+      while (cells.length < rowIndex) cells.push([]);
+      cells[rowIndex] = values;
+    }
+    sheets.push({ name: sheet.getAttribute("name") ?? `Sheet ${sheets.length + 1}`, cells });
+  }
+  return sheets;
+};
+
+// --- OpenDocument ---
+
+// Paragraph text with the spacing elements ODF uses for runs of spaces,
+// tabs and line breaks put back.
+const paragraphText = (node: Node): string => {
+  let text = "";
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += child.textContent;
+      continue;
+    }
+    const element = child as Element;
+    const name = element.namespaceURI === TEXT_NS ? element.localName : "";
+    if (name === "s") text += " ".repeat(Number(element.getAttributeNS(TEXT_NS, "c") ?? 1));
+    else if (name === "tab") text += "\t";
+    else if (name === "line-break") text += "\n";
+    else text += paragraphText(child);
+  }
+  return text;
+};
+
+// PT10H30M00S, as ODF writes times of day.
+const formatDuration = (value: string) => {
+  const match = value.match(/^-?PT(\d+)H(\d+)M(\d+)/);
+  return match ? `${pad(Number(match[1]))}:${pad(Number(match[2]))}${Number(match[3]) ? `:${pad(Number(match[3]))}` : ""}` : value;
+};
+
+const odsCellText = (cell: Element) => {
+  const type = cell.getAttributeNS(OFFICE_NS, "value-type");
+  const attribute = (name: string) => cell.getAttributeNS(OFFICE_NS, name) ?? "";
+  if (type === "float" || type === "percentage" || type === "currency") return formatNumber(attribute("value"));
+  if (type === "date") {
+    // Dates without a time are plain YYYY-MM-DD; both are read as UTC so
+    // the local time zone can't shift them.
+    const [day, time = "00:00:00"] = attribute("date-value").split("T");
+    return formatDate(new Date(`${day}T${time.slice(0, 8)}Z`));
+  }
+  if (type === "time") return formatDuration(attribute("time-value"));
+  if (type === "boolean") return attribute("boolean-value") === "true" ? "TRUE" : "FALSE";
+  return Array.from(cell.getElementsByTagNameNS(TEXT_NS, "p")).map(paragraphText).join("\n");
+};
+
+const readOds = async (zip: ZipReader): Promise<SheetGrid[]> => {
+  const doc = parseXml(await zip.readText("content.xml"));
+  return Array.from(doc.getElementsByTagNameNS(TABLE_NS, "table")).map((table, index) => {
+    const cells: string[][] = [];
+    let blankRows = 0;
+    for (const row of Array.from(table.getElementsByTagNameNS(TABLE_NS, "table-row"))) {
+      const values: string[] = [];
+      // Sheets pad every row out to the last column with one repeated empty
+      // cell, and end with a million repeated empty rows, so empty runs are
+      // only written out once something follows them.
+      let blankCells = 0;
+      for (const cell of Array.from(row.children)) {
+        if (cell.namespaceURI !== TABLE_NS || !cell.localName.endsWith("table-cell")) continue;
+        const repeat = Number(cell.getAttributeNS(TABLE_NS, "number-columns-repeated") ?? 1);
+        const text = odsCellText(cell);
+        if (!text) {
+          blankCells += repeat;
+          continue;
+        }
+        values.push(...Array<string>(blankCells).fill(""), ...Array<string>(repeat).fill(text));
+        blankCells = 0;
+      }
+      const repeat = Number(row.getAttributeNS(TABLE_NS, "number-rows-repeated") ?? 1);
+      if (values.length === 0) {
+        blankRows += repeat;
+        continue;
+      }
+      for (let i = 0; i < blankRows; i++) cells.push([]);
+      for (let i = 0; i < repeat; i++) cells.push(values);
+      blankRows = 0;
+    }
+    return { name: table.getAttributeNS(TABLE_NS, "name") || `Sheet ${index + 1}`, cells };
+  });
+};
+
+export const readSpreadsheet = async (data: ArrayBuffer): Promise<SheetGrid[]> => {
+  const zip = openZip(data);
+  if (zip.has("xl/workbook.xml")) return readXlsx(zip);
+  if (zip.has("content.xml")) return readOds(zip);
+  throw new Error("The file is not an Excel or OpenDocument spreadsheet");
+};
@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const a = document.createElement("a")
+  a.href = URL.createObjectURL(blob)
+  a.download = fileName
+
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  // Some browsers only start reading the blob after click() returns.
+  setTimeout(() => URL.revokeObjectURL(a.href), 60_000)
+}
@@ -0,0 +1,79 @@
+// A minimal ZIP reader for the spreadsheet formats, which are ZIP archives
+// of XML parts. The whole file is held in memory and entries are inflated on
+// demand with the browser's DecompressionStream. ZIP64 is not supported;
+// spreadsheets small enough to load in a browser never need it.
+
+const SIG_END_OF_CENTRAL_DIR = 0x06054b50;
+const SIG_CENTRAL_DIR = 0x02014b50;
+const SIG_LOCAL_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+export type ZipReader = {
+  has: (name: string) => boolean;
+  readText: (name: string) => Promise<string>;
+};
+
+// The end record sits in the last 22 bytes, unless the archive carries a
+// comment of up to 64 KB after it.
+const findEndRecord = (view: DataView) => {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xFFFF);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === SIG_END_OF_CENTRAL_DIR) return offset;
+  }
+  throw new Error("The file is not a valid spreadsheet (no ZIP directory found)");
+};
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (data: ArrayBuffer): ZipReader => {
+  const view = new DataView(data);
+  const end = findEndRecord(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== SIG_CENTRAL_DIR) throw new Error("The spreadsheet's ZIP directory is damaged");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`The spreadsheet has no ${name} part`);
+    const local = entry.localOffset;
+    if (view.getUint32(local, true) !== SIG_LOCAL_HEADER) throw new Error(`The spreadsheet's ${name} part is damaged`);
+    // The local header's own name and extra lengths can differ from the
+    // central directory's, so the data offset is taken from here.
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const bytes = new Uint8Array(data, start, entry.compressedSize);
+    if (entry.method === METHOD_STORED) return bytes;
+    if (entry.method === METHOD_DEFLATE) return inflate(bytes);
+    throw new Error(`The spreadsheet's ${name} part uses an unsupported compression method`);
+  };
+
+  return {
+    has: name => entries.has(name),
+    readText: async name => decoder.decode(await read(name)),
+  };
+};
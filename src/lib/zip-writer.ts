@@ -0,0 +1,199 @@
+import { crc32 } from "@/lib/crc32";
+
+// A minimal streaming ZIP writer. Entries are STORED (JPEG and PNG data does
+// not compress any further) and written straight through to the destination
+// stream, so only the central directory records stay in memory. ZIP64 records
+// are added automatically once the archive passes the 4 GB / 65535 entry
+// limits of the classic format.
+
+const MAX_UINT16 = 0xFFFF;
+const MAX_UINT32 = 0xFFFFFFFF;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const FLAG_UTF8 = 0x0800;
+
+type CentralEntry = {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+export type ZipWriter = {
+  addFile: (name: string, data: Blob) => Promise<void>;
+  close: () => Promise<void>;
+  abort: (reason?: unknown) => Promise<void>;
+  readonly bytesWritten: number;
+  readonly entryCount: number;
+};
+
+const toDosDateTime = (d: Date) => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  date: (Math.max(d.getFullYear() - 1980, 0) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+});
+
+// An entry whose local header starts past 4 GB can only be found through a
+// ZIP64 extra field in its central record, and both of its headers then say
+// so in their version needed to extract.
+const entryNeedsZip64 = (offset: number) => offset >= MAX_UINT32;
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setBigUint64(offset, BigInt(value), true);
+};
+
+export const createZipWriter = (stream: WritableStream<Uint8Array>): ZipWriter => {
+  const writer = stream.getWriter();
+  const entries: CentralEntry[] = [];
+  const encoder = new TextEncoder();
+  let offset = 0;
+  let closed = false;
+
+  const write = async (chunk: Uint8Array) => {
+    await writer.ready;
+    await writer.write(chunk);
+    offset += chunk.byteLength;
+  };
+
+  const addFile = async (name: string, data: Blob) => {
+    if (closed) throw new Error("Cannot add files to a closed archive");
+
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    if (bytes.byteLength >= MAX_UINT32) {
+      throw new Error(`${name} is too large to store in the archive`);
+    }
+
+    const encodedName = encoder.encode(name);
+    const { time, date } = toDosDateTime(new Date());
+    const crc = crc32(bytes);
+
+    const header = new Uint8Array(30 + encodedName.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034B50, true); // Local file header signature
+    view.setUint16(4, entryNeedsZip64(offset) ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, 0, true); // Method: stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, bytes.byteLength, true); // Compressed size
+    view.setUint32(22, bytes.byteLength, true); // Uncompressed size
+    view.setUint16(26, encodedName.length, true);
+    view.setUint16(28, 0, true); // Extra field length
+    header.set(encodedName, 30);
+
+    entries.push({ name: encodedName, crc, size: bytes.byteLength, offset, time, date });
+    await write(header);
+    await write(bytes);
+  };
+
+  const centralDirectoryRecord = (entry: CentralEntry) => {
+    const needsZip64 = entryNeedsZip64(entry.offset);
+    const extraLength = needsZip64 ? 12 : 0;
+    const record = new Uint8Array(46 + entry.name.length + extraLength);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, 0x02014B50, true); // Central directory header signature
+    view.setUint16(4, VERSION_ZIP64, true); // Version made by
+    view.setUint16(6, needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(8, FLAG_UTF8, true);
+    view.setUint16(10, 0, true); // Method: stored
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, entry.size, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extraLength, true);
+    view.setUint16(32, 0, true); // Comment length
+    view.setUint16(34, 0, true); // Disk number
+    view.setUint16(36, 0, true); // Internal attributes
+    view.setUint32(38, 0, true); // External attributes
+    view.setUint32(42, needsZip64 ? MAX_UINT32 : entry.offset, true);
+    record.set(entry.name, 46);
+
+    if (needsZip64) {
+      const extraOffset = 46 + entry.name.length;
+      view.setUint16(extraOffset, 0x0001, true); // ZIP64 extended information
+      view.setUint16(extraOffset + 2, 8, true);
+      setUint64(view, extraOffset + 4, entry.offset);
+    }
+    return record;
+  };
+
+  const endOfCentralDirectory = (cdOffset: number, cdSize: number) => {
+    const count = entries.length;
+    const needsZip64 = count >= MAX_UINT16 || cdOffset >= MAX_UINT32 || cdSize >= MAX_UINT32;
+    const chunks: Uint8Array[] = [];
+
+    if (needsZip64) {
+      const zip64Offset = cdOffset + cdSize;
+
+      const record = new Uint8Array(56);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x06064B50, true); // ZIP64 end of central directory signature
+      setUint64(view, 4, 44); // Size of the remaining record
+      view.setUint16(12, VERSION_ZIP64, true);
+      view.setUint16(14, VERSION_ZIP64, true);
+      view.setUint32(16, 0, true); // This disk
+      view.setUint32(20, 0, true); // Disk with the central directory
+      setUint64(view, 24, count);
+      setUint64(view, 32, count);
+      setUint64(view, 40, cdSize);
+      setUint64(view, 48, cdOffset);
+      chunks.push(record);
+
+      const locator = new Uint8Array(20);
+      const locatorView = new DataView(locator.buffer);
+      locatorView.setUint32(0, 0x07064B50, true); // ZIP64 end of central directory locator
+      locatorView.setUint32(4, 0, true);
+      setUint64(locatorView, 8, zip64Offset);
+      locatorView.setUint32(16, 1, true); // Total number of disks
+      chunks.push(locator);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054B50, true); // End of central directory signature
+    view.setUint16(4, 0, true);
+    view.setUint16(6, 0, true);
+    view.setUint16(8, Math.min(count, MAX_UINT16), true);
+    view.setUint16(10, Math.min(count, MAX_UINT16), true);
+    view.setUint32(12, Math.min(cdSize, MAX_UINT32), true);
+    view.setUint32(16, Math.min(cdOffset, MAX_UINT32), true);
+    view.setUint16(20, 0, true); // Comment length
+    chunks.push(end);
+
+    return chunks;
+  };
+
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+
+    const cdOffset = offset;
+    for (const entry of entries) {
+      await write(centralDirectoryRecord(entry));
+    }
+    const cdSize = offset - cdOffset;
+    for (const chunk of endOfCentralDirectory(cdOffset, cdSize)) {
+      await write(chunk);
+    }
+    await writer.close();
+  };
+
+  const abort = async (reason?: unknown) => {
+    if (closed) return;
+    closed = true;
+    await writer.abort(reason);
+  };
+
+  return {
+    addFile,
+    close,
+    abort,
+    get bytesWritten() { return offset; },
+    get entryCount() { return entries.length; },
+  };
+};
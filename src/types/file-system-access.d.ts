@@ -0,0 +1,34 @@
+// The File System Access picker APIs are Chromium-only and not yet part of
+// TypeScript's DOM lib. Only the parts this app uses are declared here.
+
+type FilePickerAcceptType = {
+  description?: string;
+  accept: Record<string, string | string[]>;
+};
+
+type SaveFilePickerOptions = {
+  suggestedName?: string;
+  types?: FilePickerAcceptType[];
+  excludeAcceptAllOption?: boolean;
+};
+
+type DirectoryPickerOptions = {
+  // Lets the browser remember the last folder picked for this purpose.
+  id?: string;
+  mode?: "read" | "readwrite";
+};
+
+type FileSystemHandlePermissionDescriptor = {
+  mode?: "read" | "readwrite";
+};
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+  showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>;
+}
+
+// Permission to a handle restored from IndexedDB has to be asked for again.
+interface FileSystemHandle {
+  queryPermission?: (descriptor?: FileSystemHandlePermissionDescriptor) => Promise<PermissionState>;
+  requestPermission?: (descriptor?: FileSystemHandlePermissionDescriptor) => Promise<PermissionState>;
+}